@@ -2,6 +2,7 @@ import { VRButton, XR } from '@react-three/xr'
 import { Canvas } from '@react-three/fiber'
 import XRScene from './components/XRScene'
 import PlayerUI from './components/PlayerUI'
+import Inspector from './components/Inspector'
 import './App.css'
 
 function App() {
@@ -12,6 +13,9 @@ function App() {
       
       {/* Player UI Overlay */}
       <PlayerUI />
+
+      {/* Developer Inspector Overlay (backquote key) */}
+      <Inspector />
       
       {/* Main XR Canvas - handles both 2D preview and VR modes */}
       <Canvas
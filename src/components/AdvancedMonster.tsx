@@ -1,120 +1,77 @@
-import { useRef, useEffect } from 'react'
+import { useRef, useEffect, useState } from 'react'
 import { useFrame } from '@react-three/fiber'
 import { useGameStore } from '../stores/gameStore'
-import {
-  createHealthComponent,
-  createCombatStatsComponent,
-  createFactionComponent,
-  createTransformComponent,
-  createAIComponent,
-  createMovementComponent,
-  type TransformComponent,
-  type HealthComponent
-} from '../systems/CombatComponents'
+import { getInterpolatedPosition, getInterpolatedRotationY } from '../systems/CombatComponents'
 import type { Entity } from '../systems/ECS'
+import AilmentIndicators from './AilmentIndicators'
 import type { ThreeEvent } from '@react-three/fiber'
 import * as THREE from 'three'
+import { logger } from '../utils/Logger'
+
+const log = logger.for('combat')
 
 interface AdvancedMonsterProps {
+  id?: string // Stable entity id, so saves and recordings line up across page loads
   position?: THREE.Vector3
-  monsterType?: 'basic' | 'heavy' | 'fast' | 'boss'
+  prefab?: string // Prefab name, e.g. 'monster.heavy'
 }
 
 export default function AdvancedMonster({ 
   position = new THREE.Vector3(0, 0.5, 0), 
-  monsterType = 'basic' 
+  prefab = 'monster.basic',
+  id
 }: AdvancedMonsterProps) {
   const { ecsWorld, currentTarget, setCurrentTarget } = useGameStore()
   const meshRef = useRef<THREE.Mesh>(null)
   const entityRef = useRef<Entity | null>(null)
   const entityInitialized = useRef(false)
 
-  // Generate unique entity ID
-  const entityId = useRef('adv_monster_' + Math.random().toString(36).substr(2, 6)).current
-
-  // Monster type configurations
-  const getMonsterConfig = (type: string) => {
-    switch (type) {
-      case 'heavy':
-        return {
-          health: 150,
-          damage: 30,
-          speed: 1.0,
-          scale: [1.5, 1.5, 1.5] as const,
-          color: "#8B0000" // Dark red
-        }
-      case 'fast':
-        return {
-          health: 50,
-          damage: 15,
-          speed: 4.0,
-          scale: [0.8, 0.8, 0.8] as const,
-          color: "#FF4500" // Orange red
-        }
-      case 'boss':
-        return {
-          health: 300,
-          damage: 50,
-          speed: 2.0,
-          scale: [2.0, 2.0, 2.0] as const,
-          color: "#4B0000" // Very dark red
-        }
-      default: // basic
-        return {
-          health: 100,
-          damage: 20,
-          speed: 2.0,
-          scale: [1, 1, 1] as const,
-          color: "#CC0000" // Normal red
-        }
-    }
-  }
+  // Generate unique entity ID (seeded, so spawns are reproducible)
+  const [entityId] = useState(() => id || ecsWorld.generateId('adv_monster'))
 
-  const config = getMonsterConfig(monsterType)
+  // Appearance comes from the prefab data (src/data/prefabs.ts)
+  const appearance = ecsWorld.prefabs.resolve(prefab).appearance
+  const color = appearance?.color || '#CC0000'
+  const scale = appearance?.scale || 1
 
   // Handle click to target this monster
   const handleClick = (event: ThreeEvent<MouseEvent>) => {
     event.stopPropagation()
+
+    // With the inspector open, clicks select entities for inspection instead
+    const { inspectorOpen, inspectEntity } = useGameStore.getState()
+    if (inspectorOpen) {
+      inspectEntity(entityId)
+      return
+    }
     
-    console.log(`🎯 AdvancedMonster ${entityId} clicked for targeting`)
+    log.debug(`🎯 AdvancedMonster ${entityId} clicked for targeting`)
     
     if (!entityRef.current) {
-      console.log(`❌ No entity reference for advanced monster ${entityId}`)
+      log.warn(`❌ No entity reference for advanced monster ${entityId}`)
       return
     }
 
     // Check if monster is alive
-    const healthComponent = entityRef.current.getComponent<HealthComponent>('health')
+    const healthComponent = entityRef.current.getComponent('health')
     if (healthComponent && healthComponent.current <= 0) {
-      console.log(`❌ AdvancedMonster ${entityId} is dead, cannot target`)
+      log.info(`❌ AdvancedMonster ${entityId} is dead, cannot target`)
       return
     }
 
     // Set this monster as the target using the store
     setCurrentTarget(entityRef.current.id)
-    console.log(`✅ Targeted advanced monster: ${entityRef.current.id}`)
+    log.info(`✅ Targeted advanced monster: ${entityRef.current.id}`)
   }
 
   // Initialize monster entity and components
   useEffect(() => {
     if (entityInitialized.current) return
     
-    const monster = ecsWorld.createEntity(entityId)
-    entityRef.current = monster
-
-    // Add components to the entity
-    monster.addComponent(createTransformComponent(position, new THREE.Euler(0, 0, 0)))
-    monster.addComponent(createHealthComponent(config.health))
-    monster.addComponent(createCombatStatsComponent({ 
-      damage: config.damage, 
-      attackSpeed: 1.5 
-    }))
-    monster.addComponent(createFactionComponent('enemy'))
-    monster.addComponent(createAIComponent(8.0, 2.0))
-    monster.addComponent(createMovementComponent(config.speed))
+    entityRef.current = ecsWorld.spawn(prefab, { transform: { position: position.clone() } }, entityId)
 
     entityInitialized.current = true
-  }, [ecsWorld, entityId, position, config.health, config.damage, config.speed]) // Include all dependencies
+  }, [ecsWorld, entityId, position, prefab]) // Include all dependencies
 
   // Update visual representation based on ECS components
   useFrame(() => {
@@ -123,25 +80,26 @@ export default function AdvancedMonster({
     const entity = entityRef.current
     const mesh = meshRef.current
 
-    // Update mesh position from transform component
-    const transform = entity.getComponent<TransformComponent>('transform')
+    // Update mesh position from transform component (interpolated between fixed steps)
+    const transform = entity.getComponent('transform')
     if (transform) {
-      mesh.position.copy(transform.position)
-      mesh.rotation.y = transform.rotation.y
+      const alpha = ecsWorld.interpolationAlpha
+      getInterpolatedPosition(transform, alpha, mesh.position)
+      mesh.rotation.y = getInterpolatedRotationY(transform, alpha)
     }
 
     // Update visual state based on health
-    const healthComponent = entity.getComponent<HealthComponent>('health')
+    const healthComponent = entity.getComponent('health')
     if (healthComponent) {
       const healthPercent = healthComponent.current / healthComponent.maximum
       
       // Change color based on health
       if (healthPercent < 0.3) {
-        const baseColor = new THREE.Color(config.color)
+        const baseColor = new THREE.Color(color)
         const darkColor = baseColor.clone().multiplyScalar(0.5) // Darker when low health
         ;(mesh.material as THREE.MeshStandardMaterial).color.copy(darkColor)
       } else {
-        ;(mesh.material as THREE.MeshStandardMaterial).color.set(config.color)
+        ;(mesh.material as THREE.MeshStandardMaterial).color.set(color)
       }
     }
   })
@@ -155,17 +113,20 @@ export default function AdvancedMonster({
         onClick={handleClick}
         castShadow
         receiveShadow
-        scale={config.scale}
+        scale={scale}
       >
         <boxGeometry args={[1, 1, 1]} />
         <meshStandardMaterial 
-          color={currentTarget === entityRef.current?.id ? "#ff8800" : config.color} 
+          color={currentTarget === entityRef.current?.id ? "#ff8800" : color} 
           roughness={0.7}
         />
       </mesh>
 
+      {/* Burning / chilled / frozen / shocked pips and body glow */}
+      <AilmentIndicators entityRef={entityRef} bodyRef={meshRef} height={scale * 0.5 + 0.6} />
+
       {/* Health Bar */}
-      <group position={[0, config.scale[1] * 0.8 + 0.5, 0]}>
+      <group position={[0, scale * 0.8 + 0.5, 0]}>
         {/* Background bar */}
         <mesh position={[0, 0, 0]}>
           <planeGeometry args={[1.5, 0.15]} />
@@ -174,7 +135,7 @@ export default function AdvancedMonster({
         
         {/* Dynamic Health bar */}
         {entityRef.current && (() => {
-          const healthComponent = entityRef.current.getComponent<HealthComponent>('health')
+          const healthComponent = entityRef.current.getComponent('health')
           if (healthComponent) {
             const healthPercent = healthComponent.current / healthComponent.maximum
             const barWidth = 1.2 * healthPercent
@@ -191,12 +152,12 @@ export default function AdvancedMonster({
       </group>
 
       {/* Monster type indicator (floating text) */}
-      {monsterType !== 'basic' && (
-        <group position={[0, config.scale[1] * 0.8 + 1.0, 0]}>
+      {appearance?.badgeColor && (
+        <group position={[0, scale * 0.8 + 1.0, 0]}>
           <mesh>
             <planeGeometry args={[1, 0.2]} />
             <meshBasicMaterial 
-              color={monsterType === 'boss' ? "#FFD700" : "#FFFFFF"} 
+              color={appearance.badgeColor} 
               transparent 
               opacity={0.8} 
             />
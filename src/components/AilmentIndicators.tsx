@@ -0,0 +1,58 @@
+// Ailment indicators - a row of coloured pips above an entity (one per
+// active ailment) and a glow on its body in the colour of the first one
+import { useRef } from 'react'
+import type { RefObject } from 'react'
+import { useFrame } from '@react-three/fiber'
+import { AILMENT_TYPES, AILMENT_COLORS, hasAilment } from '../systems/Ailments'
+import type { Entity } from '../systems/ECS'
+import * as THREE from 'three'
+
+const PIP_SPACING = 0.25
+const GLOW_INTENSITY = 0.6
+
+interface AilmentIndicatorsProps {
+  entityRef: RefObject<Entity | null>
+  bodyRef: RefObject<THREE.Mesh | null>
+  height: number // Pip row height above the entity
+}
+
+export default function AilmentIndicators({ entityRef, bodyRef, height }: AilmentIndicatorsProps) {
+  const groupRef = useRef<THREE.Group>(null)
+  const pipRefs = useRef<Array<THREE.Mesh | null>>([])
+
+  useFrame(() => {
+    const entity = entityRef.current
+    const group = groupRef.current
+    if (!entity || !group) return
+
+    // Follow the body (it is positioned from the ECS every frame)
+    if (bodyRef.current) group.position.copy(bodyRef.current.position).setY(bodyRef.current.position.y + height)
+
+    // Show active pips side by side, centred
+    const active = AILMENT_TYPES.filter(type => hasAilment(entity, type))
+    AILMENT_TYPES.forEach((type, index) => {
+      const pip = pipRefs.current[index]
+      if (!pip) return
+      const slot = active.indexOf(type)
+      pip.visible = slot >= 0
+      pip.position.x = (slot - (active.length - 1) / 2) * PIP_SPACING
+    })
+
+    const material = bodyRef.current?.material as THREE.MeshStandardMaterial | undefined
+    if (material) {
+      material.emissive.set(active.length > 0 ? AILMENT_COLORS[active[0]] : '#000000')
+      material.emissiveIntensity = active.length > 0 ? GLOW_INTENSITY : 1
+    }
+  })
+
+  return (
+    <group ref={groupRef}>
+      {AILMENT_TYPES.map((type, index) => (
+        <mesh key={type} ref={mesh => { pipRefs.current[index] = mesh }} visible={false}>
+          <sphereGeometry args={[0.08, 8, 8]} />
+          <meshBasicMaterial color={AILMENT_COLORS[type]} />
+        </mesh>
+      ))}
+    </group>
+  )
+}
@@ -4,6 +4,9 @@ import { useFrame, useThree } from '@react-three/fiber'
 import { useXR } from '@react-three/xr'
 import { useGameStore } from '../stores/gameStore'
 import * as THREE from 'three'
+import { logger } from '../utils/Logger'
+
+const log = logger.for('xr')
 
 interface CameraFollowProps {
   followPlayer?: boolean
@@ -94,7 +97,7 @@ export default function CameraFollow({
         vrCameraGroup.current.position.lerp(teleportTarget, 3.0 * delta)
       }
       
-      console.log(`VR Camera teleporting: distance ${distanceFromPlayer.toFixed(2)}`)
+      log.debug(`VR Camera teleporting: distance ${distanceFromPlayer.toFixed(2)}`)
     }
     
     // Always update last known player position
@@ -0,0 +1,169 @@
+// Developer inspector overlay (toggle with the backquote key)
+// Lists ECS entities, shows the selected entity's components with live
+// values and per-system update timings. Numeric fields can be edited in
+// place; clicking a monster or the player in the scene selects it.
+import { useEffect, useState } from 'react'
+import { useGameStore } from '../stores/gameStore'
+import { describeComponent } from '../systems/Inspection'
+import type { ComponentType } from '../systems/ECS'
+
+const REFRESH_INTERVAL = 200 // ms between live value refreshes
+
+interface FieldEdit {
+  componentType: ComponentType
+  field: string
+  draft: string
+}
+
+const panelStyle = {
+  position: 'fixed' as const,
+  top: '20px',
+  right: '20px',
+  width: '340px',
+  maxHeight: 'calc(100vh - 40px)',
+  overflowY: 'auto' as const,
+  zIndex: 1100,
+  background: 'rgba(0,0,0,0.85)',
+  border: '1px solid #444',
+  borderRadius: '8px',
+  padding: '10px',
+  fontFamily: 'monospace',
+  fontSize: '11px',
+  color: '#ddd'
+}
+
+const headingStyle = {
+  fontWeight: 'bold',
+  color: '#ffcc66',
+  margin: '8px 0 4px'
+}
+
+export default function Inspector() {
+  const { ecsWorld, inspectorOpen, inspectedEntity, inspectEntity, editComponentField, getSystemTimings } = useGameStore()
+  const [, setRefresh] = useState(0)
+  const [filter, setFilter] = useState('')
+  const [edit, setEdit] = useState<FieldEdit | null>(null)
+
+  // Re-render periodically so values stay live
+  useEffect(() => {
+    if (!inspectorOpen) return
+    const interval = setInterval(() => setRefresh(count => count + 1), REFRESH_INTERVAL)
+    return () => clearInterval(interval)
+  }, [inspectorOpen])
+
+  if (!inspectorOpen) return null
+
+  const entities = ecsWorld.getAllEntities().filter(entity => entity.id.includes(filter))
+  const selected = inspectedEntity ? ecsWorld.getEntity(inspectedEntity) : undefined
+  const timings = getSystemTimings()
+
+  const commitEdit = () => {
+    if (!edit || !selected) return
+    const value = Number(edit.draft)
+    if (edit.draft.trim() !== '' && Number.isFinite(value)) {
+      editComponentField(selected.id, edit.componentType, edit.field, value)
+    }
+    setEdit(null)
+  }
+
+  return (
+    <div style={panelStyle}>
+      <div style={{ fontWeight: 'bold', fontSize: '13px' }}>
+        🔍 ECS Inspector <span style={{ color: '#888' }}>tick {ecsWorld.clock.tick}</span>
+      </div>
+
+      {/* Per-system update timings */}
+      <div style={headingStyle}>Systems (avg / max ms)</div>
+      {timings.length === 0 && <div style={{ color: '#888' }}>No timings yet</div>}
+      {timings.map(timing => (
+        <div key={timing.name} style={{ display: 'flex', justifyContent: 'space-between' }}>
+          <span>{timing.name}</span>
+          <span>{timing.averageMs.toFixed(3)} / {timing.maxMs.toFixed(3)}</span>
+        </div>
+      ))}
+
+      {/* Entity list */}
+      <div style={headingStyle}>Entities ({ecsWorld.getAllEntities().length})</div>
+      <input
+        value={filter}
+        onChange={event => setFilter(event.target.value)}
+        onKeyDown={event => event.stopPropagation()}
+        placeholder="Filter by id"
+        style={{ width: '100%', marginBottom: '4px', fontSize: '11px' }}
+      />
+      <div style={{ maxHeight: '160px', overflowY: 'auto' }}>
+        {entities.map(entity => (
+          <div
+            key={entity.id}
+            onClick={() => inspectEntity(entity.id)}
+            style={{
+              cursor: 'pointer',
+              padding: '1px 4px',
+              background: entity.id === inspectedEntity ? '#335' : 'transparent',
+              color: entity.hasComponent('dead') ? '#888' : '#ddd'
+            }}
+          >
+            {entity.id}
+          </div>
+        ))}
+      </div>
+
+      {/* Selected entity's components */}
+      {inspectedEntity && !selected && (
+        <div style={{ ...headingStyle, color: '#ff6666' }}>{inspectedEntity} no longer exists</div>
+      )}
+      {selected && (
+        <>
+          <div style={headingStyle}>{selected.id}</div>
+          {selected.getAllComponents().map(component => (
+            <div key={component.type} style={{ marginBottom: '6px' }}>
+              <div style={{ color: '#66ccff' }}>{component.type}</div>
+              {describeComponent(component).map(field => {
+                const isEditing = edit?.componentType === component.type && edit.field === field.name
+                return (
+                  <div key={field.name} style={{ display: 'flex', justifyContent: 'space-between', paddingLeft: '8px' }}>
+                    <span style={{ color: '#aaa' }}>{field.name}</span>
+                    {isEditing ? (
+                      <input
+                        autoFocus
+                        value={edit.draft}
+                        onChange={event => setEdit({ ...edit, draft: event.target.value })}
+                        onBlur={commitEdit}
+                        onKeyDown={event => {
+                          event.stopPropagation() // Keep typing away from the game's key bindings
+                          if (event.key === 'Enter') commitEdit()
+                          if (event.key === 'Escape') setEdit(null)
+                        }}
+                        style={{ width: '90px', fontSize: '11px' }}
+                      />
+                    ) : (
+                      <span
+                        onClick={() => field.editable && setEdit({
+                          componentType: component.type,
+                          field: field.name,
+                          draft: String(field.value)
+                        })}
+                        title={field.editable ? 'Click to edit' : undefined}
+                        style={{
+                          cursor: field.editable ? 'text' : 'default',
+                          color: field.editable ? '#fff' : '#bbb',
+                          textDecoration: field.editable ? 'underline dotted' : 'none',
+                          maxWidth: '200px',
+                          overflow: 'hidden',
+                          textOverflow: 'ellipsis',
+                          whiteSpace: 'nowrap'
+                        }}
+                      >
+                        {typeof field.value === 'number' ? Number(field.value.toFixed(3)) : field.value}
+                      </span>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          ))}
+        </>
+      )}
+    </div>
+  )
+}
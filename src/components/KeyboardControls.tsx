@@ -1,68 +1,126 @@
 // Keyboard controls for desktop testing
+// Combat keys go through the input system so they are recorded and replayable
 import { useEffect } from 'react'
 import { useGameStore } from '../stores/gameStore'
-import { PlayerCombatSystem } from '../systems/PlayerCombatSystem'
+import { downloadTextFile, openTextFile } from '../utils/files'
+import { logger } from '../utils/Logger'
+
+const log = logger.for('combat')
+
+// Keys that toggle or open something act once per press, not on key repeat
+const ONCE_PER_PRESS = new Set(['KeyP', 'F5', 'F6', 'F7', 'F8', 'F9', 'Backquote'])
 
 export default function KeyboardControls() {
-  const { ecsWorld } = useGameStore()
+  const {
+    ecsWorld, sendInput, quickSave, quickLoad, startRecording, stopRecording, playRecording, toggleInspector,
+    togglePause, stepSimulation, setTimeScale
+  } = useGameStore()
 
   useEffect(() => {
     const handleKeyPress = (event: KeyboardEvent) => {
-      // Get combat system
-      const worldSystems = (ecsWorld as unknown as { systems: PlayerCombatSystem[] }).systems
-      const combatSystem = worldSystems.find(s => s instanceof PlayerCombatSystem)
-      
-      if (!combatSystem) return
+      if (event.repeat && ONCE_PER_PRESS.has(event.code)) {
+        event.preventDefault()
+        return
+      }
 
       switch (event.code) {
-        case 'Space': {
+        case 'Space':
           event.preventDefault()
-          const success = combatSystem.tryAttack()
-          if (success) {
-            console.log('Spacebar attack!')
-          } else {
-            console.log('Attack on cooldown or no target!')
-          }
+          sendInput({ kind: 'attack' })
+          log.debug('Spacebar attack!')
           break
-        }
         
-        case 'KeyQ': {
+        case 'KeyQ':
           event.preventDefault()
-          const success = combatSystem.castFireball()
-          if (success) {
-            console.log('Q - Fireball cast!')
-          } else {
-            console.log('Fireball failed - no target or on cooldown!')
-          }
+          sendInput({ kind: 'castSkill', skillId: 'fireball' })
+          log.debug('Q - Fireball cast!')
           break
-        }
 
-        case 'KeyW': {
+        case 'KeyW':
           event.preventDefault()
-          const success = combatSystem.castIceShard()
-          if (success) {
-            console.log('W - Ice Shard cast!')
-          }
+          sendInput({ kind: 'castSkill', skillId: 'iceShard' })
+          log.debug('W - Ice Shard cast!')
           break
-        }
 
-        case 'KeyE': {
+        case 'KeyE':
           event.preventDefault()
-          const success = combatSystem.castLightning()
-          if (success) {
-            console.log('E - Lightning cast!')
-          }
+          sendInput({ kind: 'castSkill', skillId: 'lightning' })
+          log.debug('E - Lightning cast!')
           break
-        }
 
-        case 'KeyR': {
+        case 'KeyR':
           event.preventDefault()
-          const success = combatSystem.castHeal()
-          if (success) {
-            console.log('R - Heal cast!')
+          sendInput({ kind: 'castSkill', skillId: 'heal' })
+          log.debug('R - Heal cast!')
+          break
+
+        case 'F5':
+          event.preventDefault()
+          quickSave()
+          break
+
+        case 'F9':
+          event.preventDefault()
+          quickLoad()
+          break
+
+        // Toggle input recording; stopping downloads the recording file
+        case 'F6': {
+          event.preventDefault()
+          if (useGameStore.getState().inputMode !== 'recording') {
+            startRecording()
+            break
+          }
+          const recording = stopRecording()
+          if (recording) {
+            downloadTextFile(`recording-${ecsWorld.random.seed}-${ecsWorld.clock.tick}.json`, recording)
           }
           break
         }
+
+        // Load a recording file and replay it
+        case 'F7':
+          event.preventDefault()
+          openTextFile()
+            .then(json => {
+              if (json) playRecording(json)
+            })
+            .catch(error => log.error(`❌ Could not replay recording: ${error instanceof Error ? error.message : String(error)}`))
+          break
+
+        // Download the in-memory log buffer
+        case 'F8':
+          event.preventDefault()
+          downloadTextFile(`log-${Date.now()}.txt`, logger.dump())
+          break
+
+        // Time controls - pause, single tick, slower/faster
+        // (not Escape - browsers use it to leave fullscreen and XR)
+        case 'KeyP':
+          event.preventDefault()
+          togglePause()
+          break
+
+        case 'KeyN':
+          event.preventDefault()
+          stepSimulation()
+          break
+
+        case 'BracketLeft':
+          event.preventDefault()
+          setTimeScale(useGameStore.getState().timeScale / 2)
+          break
+
+        case 'BracketRight':
+          event.preventDefault()
+          setTimeScale(useGameStore.getState().timeScale * 2)
+          break
+
+        // Developer inspector overlay
+        case 'Backquote':
+          event.preventDefault()
+          toggleInspector()
+          break
       }
     }
 
@@ -73,7 +131,10 @@ export default function KeyboardControls() {
     return () => {
       window.removeEventListener('keydown', handleKeyPress)
     }
-  }, [ecsWorld])
+  }, [
+    ecsWorld, sendInput, quickSave, quickLoad, startRecording, stopRecording, playRecording, toggleInspector,
+    togglePause, stepSimulation, setTimeScale
+  ])
 
   // This component doesn't render anything
   return null
@@ -1,22 +1,21 @@
-import { useRef, useEffect } from 'react'
+import { useRef, useEffect, useState } from 'react'
 import { useFrame } from '@react-three/fiber'
 import { useGameStore } from '../stores/gameStore'
 import {
-  createHealthComponent,
-  createCombatStatsComponent,
-  createFactionComponent,
-  createTransformComponent,
-  createAIComponent,
-  createMovementComponent,
-  createMeshComponent,
-  type TransformComponent,
-  type HealthComponent
+  getInterpolatedPosition,
+  getInterpolatedRotationY,
+  createMeshComponent
 } from '../systems/CombatComponents'
 import type { Entity } from '../systems/ECS'
+import AilmentIndicators from './AilmentIndicators'
 import type { ThreeEvent } from '@react-three/fiber'
 import * as THREE from 'three'
+import { logger } from '../utils/Logger'
+
+const log = logger.for('combat')
 
 interface MonsterProps {
+  id?: string // Stable entity id, so saves and recordings line up across page loads
   position?: THREE.Vector3
   health?: number
   aggroRange?: number
@@ -25,62 +24,60 @@ interface MonsterProps {
 export default function Monster({ 
   position = new THREE.Vector3(5, 0.5, 5), 
   health = 50,
-  aggroRange = 4 
+  aggroRange = 4,
+  id
 }: MonsterProps) {
   const { ecsWorld, currentTarget, setCurrentTarget } = useGameStore()
   const meshRef = useRef<THREE.Mesh>(null)
   const entityRef = useRef<Entity | null>(null)
   const entityInitialized = useRef(false)
 
-  // Generate unique entity ID
-  const entityId = useRef('monster_' + Math.random().toString(36).substr(2, 6)).current
+  // Generate unique entity ID (seeded, so spawns are reproducible)
+  const [entityId] = useState(() => id || ecsWorld.generateId('monster'))
 
   // Handle click to target this monster
   const handleClick = (event: ThreeEvent<MouseEvent>) => {
     event.stopPropagation()
+
+    // With the inspector open, clicks select entities for inspection instead
+    const { inspectorOpen, inspectEntity } = useGameStore.getState()
+    if (inspectorOpen) {
+      inspectEntity(entityId)
+      return
+    }
     
-    console.log(`🎯 Monster ${entityId} clicked for targeting`)
+    log.debug(`🎯 Monster ${entityId} clicked for targeting`)
     
     if (!entityRef.current) {
-      console.log(`❌ No entity reference for monster ${entityId}`)
+      log.warn(`❌ No entity reference for monster ${entityId}`)
       return
     }
 
     // Check if monster is alive
-    const healthComponent = entityRef.current.getComponent<HealthComponent>('health')
+    const healthComponent = entityRef.current.getComponent('health')
     if (healthComponent && healthComponent.current <= 0) {
-      console.log(`❌ Monster ${entityId} is dead, cannot target`)
+      log.info(`❌ Monster ${entityId} is dead, cannot target`)
       return
     }
 
     // Set this monster as the target using the store
     setCurrentTarget(entityRef.current.id)
-    console.log(`✅ Targeted monster: ${entityRef.current.id}`)
+    log.info(`✅ Targeted monster: ${entityRef.current.id}`)
   }
 
   // Create monster entity in ECS (runs once)
   useEffect(() => {
     if (entityInitialized.current) return
     
-    // Create monster entity
-    const monster = ecsWorld.createEntity(entityId)
-    entityRef.current = monster
-
-    // Add components
-    monster
-      .addComponent(createHealthComponent(health))
-      .addComponent(createCombatStatsComponent({ 
-        damage: 15, 
-        attackSpeed: 0.8, 
-        attackRange: 1.5 
-      }))
-      .addComponent(createFactionComponent('enemy'))
-      .addComponent(createTransformComponent(position.clone()))
-      .addComponent(createAIComponent(aggroRange, 1.2)) // 1.2 second attack cooldown
-      .addComponent(createMovementComponent(1.5)) // Slower than player
+    // Create monster entity from the grunt prefab with per-instance overrides
+    entityRef.current = ecsWorld.spawn('monster.grunt', {
+      health: { maximum: health },
+      ai: { aggroRange },
+      transform: { position: position.clone() }
+    }, entityId)
 
     entityInitialized.current = true
-    console.log(`Monster entity ${entityId} created`)
+    log.debug(`Monster entity ${entityId} created`)
 
     // Cleanup when component unmounts
     return () => {
@@ -99,15 +96,16 @@ export default function Monster({
     const entity = entityRef.current
     const mesh = meshRef.current
 
-    // Update mesh position from transform component
-    const transform = entity.getComponent<TransformComponent>('transform')
+    // Update mesh position from transform component (interpolated between fixed steps)
+    const transform = entity.getComponent('transform')
     if (transform) {
-      mesh.position.copy(transform.position)
-      mesh.rotation.y = transform.rotation.y
+      const alpha = ecsWorld.interpolationAlpha
+      getInterpolatedPosition(transform, alpha, mesh.position)
+      mesh.rotation.y = getInterpolatedRotationY(transform, alpha)
     }
 
     // Update visual state based on health
-    const healthComponent = entity.getComponent<HealthComponent>('health')
+    const healthComponent = entity.getComponent('health')
     if (healthComponent) {
       const healthPercent = healthComponent.current / healthComponent.maximum
       
@@ -142,6 +140,9 @@ export default function Monster({
         />
       </mesh>
 
+      {/* Burning / chilled / frozen / shocked pips and body glow */}
+      <AilmentIndicators entityRef={entityRef} bodyRef={meshRef} height={1.1} />
+
       {/* Health Bar */}
       <group position={[0, 1.5, 0]}>
         {/* Background bar */}
@@ -152,7 +153,7 @@ export default function Monster({
         
         {/* Dynamic Health bar */}
         {entityRef.current && (() => {
-          const healthComponent = entityRef.current.getComponent<HealthComponent>('health')
+          const healthComponent = entityRef.current.getComponent('health')
           if (healthComponent) {
             const healthPercent = healthComponent.current / healthComponent.maximum
             const barWidth = 1.0 * healthPercent
@@ -1,14 +1,8 @@
 import { useRef, useEffect } from 'react'
 import { useFrame } from '@react-three/fiber'
+import type { ThreeEvent } from '@react-three/fiber'
 import { useGameStore } from '../stores/gameStore'
-import {
-  createHealthComponent,
-  createCombatStatsComponent,
-  createFactionComponent,
-  createTransformComponent,
-  createMeshComponent,
-  createMovementComponent
-} from '../systems/CombatComponents'
+import { createMeshComponent, getInterpolatedPosition, getInterpolatedRotationY } from '../systems/CombatComponents'
 import * as THREE from 'three'
 
 export default function Player() {
@@ -16,11 +10,8 @@ export default function Player() {
   const entityInitialized = useRef(false)
   
   // Get player state and actions from store
-  const { player, ecsWorld, setPlayerPosition, setPlayerRotation, stopPlayerMovement } = useGameStore()
-  
-  // Movement calculation constants
-  const MOVEMENT_THRESHOLD = 0.1 // Stop moving when this close to target
-  const ROTATION_SPEED = 8 // Rotation interpolation speed
+  const { player, ecsWorld, setPlayerPosition, setPlayerRotation, setPlayerTarget, setPlayerMoving } = useGameStore()
+  const wasMoving = useRef(false)
 
   // Create player entity in ECS (only once)
   useEffect(() => {
@@ -30,20 +21,11 @@ export default function Player() {
     let playerEntity = ecsWorld.getEntity('player_entity')
     
     if (!playerEntity) {
-      // Create player entity
-      playerEntity = ecsWorld.createEntity('player_entity')
-      
-      // Add components
-      playerEntity
-        .addComponent(createHealthComponent(100)) // Player has 100 HP
-        .addComponent(createCombatStatsComponent({ 
-          damage: 25, 
-          attackSpeed: 1.5, 
-          attackRange: 5.0 // Increased from 2.0 for easier testing
-        }))
-        .addComponent(createFactionComponent('player'))
-        .addComponent(createTransformComponent(player.position.clone()))
-        .addComponent(createMovementComponent(player.moveSpeed))
+      // Create player entity from the player prefab
+      playerEntity = ecsWorld.spawn('player', {
+        transform: { position: player.position.clone() },
+        movement: { speed: player.moveSpeed }
+      }, 'player_entity')
       
       entityInitialized.current = true
     }
@@ -62,75 +44,48 @@ export default function Player() {
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []) // Only run once
 
-  // Handle movement and rotation every frame
-  useFrame((state, delta) => {
+  // With the inspector open, clicking the player selects it for inspection
+  const handleClick = (event: ThreeEvent<MouseEvent>) => {
+    const { inspectorOpen, inspectEntity } = useGameStore.getState()
+    if (!inspectorOpen) return
+    event.stopPropagation()
+    inspectEntity('player_entity')
+  }
+
+  // Render the simulated player every frame - movement itself runs in the
+  // fixed-step PlayerMovementSystem so it is recorded and replayable
+  useFrame((state) => {
     if (!meshRef.current) return
 
     const mesh = meshRef.current
-    const currentPos = mesh.position
-    
-    // Initialize mesh position if needed (only once)
-    if (!mesh.userData.initialized) {
-      mesh.position.copy(player.position)
-      mesh.rotation.y = player.rotationY
-      mesh.userData.initialized = true
+    const playerEntity = ecsWorld.getEntity('player_entity')
+    const transform = playerEntity?.getComponent('transform')
+    const movement = playerEntity?.getComponent('movement')
+    if (!transform) return
+
+    // Interpolate between fixed steps for smooth rendering
+    const alpha = ecsWorld.interpolationAlpha
+    getInterpolatedPosition(transform, alpha, mesh.position)
+    mesh.rotation.y = getInterpolatedRotationY(transform, alpha)
+
+    // Mirror the simulated state into the store (camera follow, VR stick movement, UI)
+    setPlayerPosition(transform.position)
+    if (player.rotationY !== transform.rotation.y) {
+      setPlayerRotation(transform.rotation.y)
     }
-    
-    // Handle movement to target
-    if (player.isMoving && player.targetPosition) {
-      const target = player.targetPosition
-      const direction = new THREE.Vector3().subVectors(target, currentPos)
-      const distance = direction.length()
-      
-      // Check if we've reached the target
-      if (distance < MOVEMENT_THRESHOLD) {
-        // Snap to target and stop moving
-        mesh.position.copy(target)
-        setPlayerPosition(target)
-        stopPlayerMovement()
-      } else {
-        // Continue moving toward target
-        direction.normalize()
-        const moveDistance = player.moveSpeed * delta
-        
-        // Calculate new position
-        const newPosition = currentPos.clone().add(
-          direction.multiplyScalar(Math.min(moveDistance, distance))
-        )
-        
-        // Constrain to map boundaries
-        const maxX = 9, maxZ = 9, minX = -9, minZ = -9
-        newPosition.x = Math.max(minX, Math.min(maxX, newPosition.x))
-        newPosition.z = Math.max(minZ, Math.min(maxZ, newPosition.z))
-        newPosition.y = 0.5 // Keep player at proper height
-        
-        // Update mesh position
-        mesh.position.copy(newPosition)
-        setPlayerPosition(newPosition)
-        
-        // Rotate player to face movement direction
-        if (direction.length() > 0) {
-          const targetRotation = Math.atan2(direction.x, direction.z)
-          
-          // Smooth rotation interpolation
-          const currentRotation = mesh.rotation.y
-          let rotationDiff = targetRotation - currentRotation
-          
-          // Handle rotation wrap-around (shortest path)
-          if (rotationDiff > Math.PI) rotationDiff -= 2 * Math.PI
-          if (rotationDiff < -Math.PI) rotationDiff += 2 * Math.PI
-          
-          const newRotation = currentRotation + rotationDiff * ROTATION_SPEED * delta
-          mesh.rotation.y = newRotation
-          setPlayerRotation(newRotation)
-        }
-      }
+
+    // Movement started or finished in the simulation (arrival, replays)
+    const moving = !!movement?.isMoving
+    if (moving !== wasMoving.current) {
+      wasMoving.current = moving
+      setPlayerTarget(moving ? movement?.targetPosition ?? null : null)
+      setPlayerMoving(moving)
     }
     
     // Add subtle idle animation when not moving
-    if (!player.isMoving) {
+    if (!moving) {
       const time = state.clock.getElapsedTime()
-      mesh.position.y = player.position.y + Math.sin(time * 2) * 0.02 // Gentle bobbing
+      mesh.position.y += Math.sin(time * 2) * 0.02 // Gentle bobbing
     }
   })
 
@@ -139,6 +94,7 @@ export default function Player() {
       {/* Main Player Character */}
       <mesh
         ref={meshRef}
+        onClick={handleClick}
         castShadow
         receiveShadow
       >
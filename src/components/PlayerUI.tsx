@@ -1,29 +1,119 @@
 import { useState, useEffect } from 'react'
 import { useGameStore } from '../stores/gameStore'
-import type { HealthComponent } from '../systems/CombatComponents'
+import { useGameplayEvent } from '../hooks/useGameplayEvent'
+import type { CastFailure } from '../systems/SkillSystem'
+
+const COMBAT_FEED_LENGTH = 5
+const TIME_SCALES = [0.125, 0.25, 0.5, 1]
+
+// Combat feed text for failed casts
+const CAST_FAILURE_MESSAGES: Record<CastFailure, string> = {
+  unknownSkill: 'Unknown skill',
+  noCaster: 'No caster',
+  unavailable: 'Skills unavailable',
+  dead: 'You are dead',
+  incapacitated: 'You cannot act',
+  noTarget: 'No target',
+  onCooldown: 'On cooldown',
+  missingComponents: 'Cannot cast',
+  outOfRange: 'Out of range',
+  notEnoughMana: 'Not enough mana'
+}
+
+// A current/maximum pair shown as a bar
+interface Meter {
+  current: number
+  maximum: number
+}
+
+// Keep the previous meter when the polled values are unchanged, so the HUD only re-renders on change
+function keepIfUnchanged<T extends Meter | null>(next: T): (previous: T) => T {
+  return previous => previous === next || (previous && next && previous.current === next.current && previous.maximum === next.maximum)
+    ? previous
+    : next
+}
+
+const pauseButtonStyle = {
+  padding: '8px 14px',
+  fontSize: '14px',
+  fontWeight: 'bold',
+  color: 'white',
+  background: '#444',
+  border: '2px solid #666',
+  borderRadius: '5px',
+  cursor: 'pointer'
+}
 
 export default function PlayerUI() {
-  const { ecsWorld, respawnPlayer } = useGameStore()
-  const [playerHealth, setPlayerHealth] = useState({ current: 100, maximum: 100 })
+  const {
+    ecsWorld, respawnPlayer, inputMode, isPaused, timeScale, setPaused, setTimeScale, stepSimulation
+  } = useGameStore()
+  const [playerHealth, setPlayerHealth] = useState<Meter>({ current: 100, maximum: 100 })
+  const [playerMana, setPlayerMana] = useState<Meter | null>(null)
+  const [playerShield, setPlayerShield] = useState<Meter | null>(null)
   const [isVisible, setIsVisible] = useState(false)
+  const [combatFeed, setCombatFeed] = useState<string[]>([])
+
+  // Recent combat involving the player, pushed by gameplay events (no polling)
+  const addFeedLine = (line: string) => {
+    setCombatFeed(feed => [...feed, line].slice(-COMBAT_FEED_LENGTH))
+  }
+
+  useGameplayEvent('damageDealt', ({ source, target, amount, breakdown, isCrit }) => {
+    if (source === 'player_entity') {
+      const types = Object.keys(breakdown).join('/')
+      addFeedLine(`${isCrit ? '💥 ' : ''}You hit ${target} for ${Math.round(amount)} ${types}`)
+    } else if (target === 'player_entity') {
+      addFeedLine(`🩸 ${source || 'Something'} hits you for ${Math.round(amount)}`)
+    }
+  })
+
+  useGameplayEvent('ailmentApplied', ({ entity, ailment }) => {
+    if (entity === 'player_entity') addFeedLine(`⚠️ You suffer ${ailment}`)
+  })
+
+  useGameplayEvent('skillFailed', ({ caster, reason }) => {
+    if (caster === 'player_entity') addFeedLine(`🚫 ${CAST_FAILURE_MESSAGES[reason]}`)
+  })
+
+  useGameplayEvent('hitAvoided', ({ source, target, outcome }) => {
+    if (target === 'player_entity') addFeedLine(`${outcome === 'blocked' ? '🛡️' : '💨'} You ${outcome} ${source || 'a hit'}`)
+    if (source === 'player_entity') addFeedLine(`${outcome === 'blocked' ? '🛡️' : '💨'} ${target} ${outcome} your hit`)
+  })
+
+  useGameplayEvent('attackMissed', ({ source, target }) => {
+    if (source === 'player_entity') addFeedLine(`💨 You missed ${target}`)
+  })
+
+  useGameplayEvent('entityDied', ({ entity, killer }) => {
+    if (killer === 'player_entity') addFeedLine(`☠️ ${entity} defeated`)
+  })
 
   useEffect(() => {
     // Update player health every frame
     const updatePlayerHealth = () => {
       const playerEntity = ecsWorld.getEntity('player_entity')
       if (playerEntity) {
-        const healthComponent = playerEntity.getComponent<HealthComponent>('health')
+        const healthComponent = playerEntity.getComponent('health')
         if (healthComponent) {
-          setPlayerHealth({
+          setPlayerHealth(keepIfUnchanged<Meter>({
             current: healthComponent.current,
             maximum: healthComponent.maximum
-          })
+          }))
           setIsVisible(true)
         }
+
+        const manaComponent = playerEntity.getComponent('mana')
+        setPlayerMana(keepIfUnchanged(manaComponent ? { current: manaComponent.current, maximum: manaComponent.maximum } : null))
+
+        const defenceComponent = playerEntity.getComponent('defence')
+        setPlayerShield(keepIfUnchanged(defenceComponent && defenceComponent.maxEnergyShield > 0
+          ? { current: defenceComponent.energyShield, maximum: defenceComponent.maxEnergyShield }
+          : null))
       }
     }
 
-    // Update health display periodically
+    // Update health and mana display periodically
     const interval = setInterval(updatePlayerHealth, 100) // Update 10 times per second
 
     return () => clearInterval(interval)
@@ -103,8 +193,142 @@ export default function PlayerUI() {
             ⚠️ LOW HEALTH!
           </div>
         )}
+
+        {/* Energy Shield Bar - absorbs damage before health */}
+        {playerShield && (
+          <div style={{
+            marginTop: '4px',
+            width: '180px',
+            height: '6px',
+            background: '#222233',
+            borderRadius: '3px',
+            overflow: 'hidden'
+          }}>
+            <div style={{
+              width: `${(playerShield.current / playerShield.maximum) * 100}%`,
+              height: '100%',
+              background: '#99ccff',
+              transition: 'width 0.3s ease'
+            }} />
+          </div>
+        )}
+
+        {/* Mana Bar */}
+        {playerMana && (
+          <div style={{
+            marginTop: '6px',
+            width: '180px',
+            height: '14px',
+            background: '#000033',
+            borderRadius: '7px',
+            border: '2px solid #666',
+            overflow: 'hidden',
+            position: 'relative'
+          }}>
+            <div style={{
+              width: `${(playerMana.current / playerMana.maximum) * 100}%`,
+              height: '100%',
+              background: 'linear-gradient(90deg, #0044cc, #3399ff)',
+              transition: 'width 0.3s ease',
+              borderRadius: '5px'
+            }} />
+            <div style={{
+              position: 'absolute',
+              top: '50%',
+              left: '50%',
+              transform: 'translate(-50%, -50%)',
+              fontSize: '10px',
+              fontWeight: 'bold',
+              color: 'white',
+              textShadow: '1px 1px 1px rgba(0,0,0,0.8)'
+            }}>
+              {Math.floor(playerMana.current)} / {playerMana.maximum}
+            </div>
+          </div>
+        )}
       </div>
 
+      {/* Combat Feed */}
+      {combatFeed.length > 0 && (
+        <div style={{
+          marginTop: '8px',
+          background: 'rgba(0,0,0,0.5)',
+          padding: '6px 10px',
+          borderRadius: '8px',
+          fontSize: '11px',
+          lineHeight: '16px'
+        }}>
+          {combatFeed.map((line, index) => (
+            <div key={index}>{line}</div>
+          ))}
+        </div>
+      )}
+
+      {/* Input recording / replay indicator (F6 record, F7 replay) */}
+      {inputMode !== 'live' && (
+        <div style={{
+          marginTop: '8px',
+          background: 'rgba(0,0,0,0.7)',
+          padding: '5px 10px',
+          borderRadius: '8px',
+          fontSize: '12px',
+          fontWeight: 'bold',
+          color: inputMode === 'recording' ? '#ff3333' : '#33ccff'
+        }}>
+          {inputMode === 'recording' ? '⏺️ REC' : '▶️ REPLAY'}
+        </div>
+      )}
+
+      {/* Slow-motion indicator ([ and ] change the time scale) */}
+      {timeScale !== 1 && !isPaused && (
+        <div style={{
+          marginTop: '8px',
+          background: 'rgba(0,0,0,0.7)',
+          padding: '5px 10px',
+          borderRadius: '8px',
+          fontSize: '12px',
+          fontWeight: 'bold',
+          color: '#ffcc33'
+        }}>
+          ⏱️ {timeScale}x
+        </div>
+      )}
+
+      {/* Pause Menu (P) - hidden behind the death screen */}
+      {isPaused && playerHealth.current > 0 && (
+        <div style={{
+          position: 'fixed',
+          top: '50%',
+          left: '50%',
+          transform: 'translate(-50%, -50%)',
+          background: 'rgba(0,0,0,0.85)',
+          padding: '25px',
+          borderRadius: '10px',
+          textAlign: 'center',
+          border: '3px solid #666'
+        }}>
+          <div style={{ fontSize: '24px', fontWeight: 'bold' }}>⏸️ PAUSED</div>
+          <div style={{ fontSize: '12px', marginTop: '8px', color: '#cccccc' }}>
+            Tick {ecsWorld.clock.tick} - N steps one tick
+          </div>
+          <div style={{ marginTop: '15px', display: 'flex', gap: '8px', justifyContent: 'center' }}>
+            <button onClick={() => setPaused(false)} style={pauseButtonStyle}>▶️ Resume</button>
+            <button onClick={() => stepSimulation()} style={pauseButtonStyle}>⏭️ Step</button>
+          </div>
+          <div style={{ marginTop: '10px', display: 'flex', gap: '6px', justifyContent: 'center' }}>
+            {TIME_SCALES.map(scale => (
+              <button
+                key={scale}
+                onClick={() => setTimeScale(scale)}
+                style={{ ...pauseButtonStyle, fontSize: '12px', background: scale === timeScale ? '#4CAF50' : '#444' }}
+              >
+                {scale}x
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Death Message */}
       {playerHealth.current <= 0 && (
         <div style={{
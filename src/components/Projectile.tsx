@@ -1,131 +1,82 @@
 // Visual Projectile Component for React Three Fiber
-import { useRef, useEffect } from 'react'
-import { useFrame } from '@react-three/fiber'
-import { useGameStore } from '../stores/gameStore'
-import {
-  createMeshComponent,
-  type TransformComponent
-} from '../systems/CombatComponents'
-import type { ProjectileComponent as ProjectileComponentType } from '../systems/ProjectileSystem'
+// Projectile meshes are pooled by ProjectileRenderer: each instance is a
+// reusable slot that is shown while assigned to a projectile entity and
+// hidden otherwise. Geometries and materials are shared per projectile type.
 import * as THREE from 'three'
 
-interface ProjectileProps {
-  entityId: string
-  projectileType: 'fireball' | 'iceShard' | 'lightning'
-}
+export type ProjectileType = 'fireball' | 'iceShard' | 'lightning'
 
-export default function Projectile({ entityId, projectileType }: ProjectileProps) {
-  const { ecsWorld } = useGameStore()
-  const meshRef = useRef<THREE.Mesh>(null)
+// A pooled visual - ProjectileRenderer assigns it to entities and moves it
+export interface ProjectileSlot {
+  projectileType: ProjectileType
+  entityId: string | null
+  group: THREE.Group | null
+  mesh: THREE.Mesh | null
+}
 
-  // Get projectile entity
-  const projectileEntity = ecsWorld.getEntity(entityId)
+interface ProjectileVisuals {
+  trail: boolean
+  geometry: THREE.SphereGeometry
+  trailGeometry: THREE.SphereGeometry
+  glowGeometry: THREE.SphereGeometry
+  material: THREE.MeshStandardMaterial
+  trailMaterial: THREE.MeshBasicMaterial
+  glowMaterial: THREE.MeshBasicMaterial
+}
 
-  // Visual settings based on projectile type
-  const getProjectileVisuals = (type: string) => {
-    switch (type) {
-      case 'fireball':
-        return {
-          color: '#ff4400',
-          emissive: '#ff2200',
-          size: 0.3,
-          trail: true
-        }
-      case 'iceShard':
-        return {
-          color: '#44aaff',
-          emissive: '#2288ff',
-          size: 0.2,
-          trail: false
-        }
-      case 'lightning':
-        return {
-          color: '#ffff44',
-          emissive: '#ffff00',
-          size: 0.15,
-          trail: true
-        }
-      default:
-        return {
-          color: '#ffffff',
-          emissive: '#888888',
-          size: 0.2,
-          trail: false
-        }
-    }
-  }
+// Visual settings based on projectile type
+const VISUAL_SETTINGS: Record<ProjectileType, { color: string; emissive: string; size: number; trail: boolean }> = {
+  fireball: { color: '#ff4400', emissive: '#ff2200', size: 0.3, trail: true },
+  iceShard: { color: '#44aaff', emissive: '#2288ff', size: 0.2, trail: false },
+  lightning: { color: '#ffff44', emissive: '#ffff00', size: 0.15, trail: true }
+}
 
-  const visuals = getProjectileVisuals(projectileType)
+// Built once per type and shared by every slot of that type
+const visualsCache = new Map<ProjectileType, ProjectileVisuals>()
 
-  // Update mesh component when Three.js mesh is ready
-  useEffect(() => {
-    if (meshRef.current && projectileEntity) {
-      const meshComponent = createMeshComponent(meshRef.current)
-      projectileEntity.addComponent(meshComponent)
-    }
-  }, [projectileEntity])
+function getVisuals(projectileType: ProjectileType): ProjectileVisuals {
+  const cached = visualsCache.get(projectileType)
+  if (cached) return cached
 
-  // Sync ECS transform with Three.js mesh
-  useFrame(() => {
-    if (!projectileEntity || !meshRef.current) return
+  const { color, emissive, size, trail } = VISUAL_SETTINGS[projectileType]
+  const visuals: ProjectileVisuals = {
+    trail,
+    geometry: new THREE.SphereGeometry(size, 8, 8),
+    trailGeometry: new THREE.SphereGeometry(size * 0.7, 6, 6),
+    glowGeometry: new THREE.SphereGeometry(size * 1.5, 8, 8),
+    material: new THREE.MeshStandardMaterial({ color, emissive, emissiveIntensity: 0.5 }),
+    trailMaterial: new THREE.MeshBasicMaterial({ color, transparent: true, opacity: 0.4 }),
+    glowMaterial: new THREE.MeshBasicMaterial({ color: emissive, transparent: true, opacity: 0.2 })
+  }
+  visualsCache.set(projectileType, visuals)
+  return visuals
+}
 
-    const transform = projectileEntity.getComponent<TransformComponent>('transform')
-    const projectileComp = projectileEntity.getComponent<ProjectileComponentType>('projectile')
-    
-    if (transform) {
-      // Update mesh position from ECS
-      meshRef.current.position.copy(transform.position)
-      
-      // Rotate projectile to face movement direction
-      if (projectileComp) {
-        const direction = projectileComp.targetPosition.clone()
-          .sub(transform.position)
-          .normalize()
-        
-        const angle = Math.atan2(direction.x, direction.z)
-        meshRef.current.rotation.y = angle
-      }
-    }
-  })
+interface ProjectileProps {
+  slot: ProjectileSlot
+}
 
-  // Don't render if entity doesn't exist
-  if (!projectileEntity) {
-    return null
-  }
+export default function Projectile({ slot }: ProjectileProps) {
+  const visuals = getVisuals(slot.projectileType)
 
   return (
-    <group>
+    <group
+      ref={group => {
+        // Only visible while assigned to a projectile
+        if (group) group.visible = slot.entityId !== null
+        slot.group = group
+      }}
+    >
       {/* Main projectile mesh */}
-      <mesh ref={meshRef}>
-        <sphereGeometry args={[visuals.size, 8, 8]} />
-        <meshStandardMaterial 
-          color={visuals.color}
-          emissive={visuals.emissive}
-          emissiveIntensity={0.5}
-        />
-      </mesh>
+      <mesh ref={mesh => { slot.mesh = mesh }} geometry={visuals.geometry} material={visuals.material} />
 
       {/* Particle trail effect for certain projectiles */}
       {visuals.trail && (
-        <mesh position={[0, 0, -0.5]}>
-          <sphereGeometry args={[visuals.size * 0.7, 6, 6]} />
-          <meshBasicMaterial 
-            color={visuals.color}
-            transparent
-            opacity={0.4}
-          />
-        </mesh>
+        <mesh position={[0, 0, -0.5]} geometry={visuals.trailGeometry} material={visuals.trailMaterial} />
       )}
 
       {/* Glow effect */}
-      <mesh>
-        <sphereGeometry args={[visuals.size * 1.5, 8, 8]} />
-        <meshBasicMaterial 
-          color={visuals.emissive}
-          transparent
-          opacity={0.2}
-        />
-      </mesh>
+      <mesh geometry={visuals.glowGeometry} material={visuals.glowMaterial} />
     </group>
   )
 }
@@ -0,0 +1,152 @@
+// Shows projectile and spell effect entities using pools of reusable meshes
+// Slots are mounted once and reassigned from ECS lifecycle events as
+// projectiles and effects spawn and expire, so casting doesn't mount React
+// components or allocate geometry. If more are active than there are free
+// slots of a type, the pool grows (and keeps the extra slots).
+import { useRef, useState } from 'react'
+import { useFrame } from '@react-three/fiber'
+import * as THREE from 'three'
+import { useGameStore } from '../stores/gameStore'
+import { useWorldLifecycle } from '../hooks/useWorldLifecycle'
+import { createMeshComponent, getInterpolatedPosition } from '../systems/CombatComponents'
+import Projectile from './Projectile'
+import type { ProjectileSlot, ProjectileType } from './Projectile'
+import SpellEffect from './SpellEffect'
+import type { SpellEffectSlot, SpellEffectType } from './SpellEffect'
+
+const PROJECTILE_TYPES: ProjectileType[] = ['fireball', 'iceShard', 'lightning']
+const EFFECT_TYPES: SpellEffectType[] = ['fireball', 'iceShard', 'lightning', 'heal']
+
+// Meshes mounted up front for each projectile type
+export const DEFAULT_MESH_POOL_SIZE = 16
+
+// Meshes mounted up front for each spell effect type
+const EFFECT_POOL_SIZE = 4
+
+// Bursts start at this fraction of their radius and grow to full size
+const EFFECT_START_SCALE = 0.2
+
+interface ProjectileRendererProps {
+  poolSize?: number
+}
+
+// Scratch vector for facing calculations
+const direction = new THREE.Vector3()
+
+const createSlot = (projectileType: ProjectileType, entityId: string | null = null): ProjectileSlot => ({
+  projectileType,
+  entityId,
+  group: null,
+  mesh: null
+})
+
+export default function ProjectileRenderer({ poolSize = DEFAULT_MESH_POOL_SIZE }: ProjectileRendererProps) {
+  const { ecsWorld } = useGameStore()
+  const [slots, setSlots] = useState<ProjectileSlot[]>(() =>
+    PROJECTILE_TYPES.flatMap(type => Array.from({ length: poolSize }, () => createSlot(type)))
+  )
+  const assigned = useRef(new Map<string, ProjectileSlot>()) // EntityId -> slot
+  const [effectSlots, setEffectSlots] = useState<SpellEffectSlot[]>(() =>
+    EFFECT_TYPES.flatMap(effectType => Array.from({ length: EFFECT_POOL_SIZE }, () => ({ effectType, entityId: null, mesh: null })))
+  )
+  const assignedEffects = useRef(new Map<string, SpellEffectSlot>()) // EntityId -> slot
+
+  const release = (entityId: string) => {
+    const slot = assigned.current.get(entityId)
+    if (!slot) return
+    assigned.current.delete(entityId)
+    slot.entityId = null
+    if (slot.group) slot.group.visible = false
+  }
+
+  const releaseEffect = (entityId: string) => {
+    const slot = assignedEffects.current.get(entityId)
+    if (!slot) return
+    assignedEffects.current.delete(entityId)
+    slot.entityId = null
+    if (slot.mesh) slot.mesh.visible = false
+  }
+
+  // A projectile is shown exactly as long as its projectile component exists
+  useWorldLifecycle('componentAdded', ({ entity, component }) => {
+    if (component.type === 'spellEffect') {
+      let slot = effectSlots.find(s => s.effectType === component.effectType && s.entityId === null)
+      if (slot) {
+        slot.entityId = entity.id
+      } else {
+        slot = { effectType: component.effectType, entityId: entity.id, mesh: null }
+        setEffectSlots(list => [...list, slot!])
+      }
+      assignedEffects.current.set(entity.id, slot)
+      return
+    }
+    if (component.type !== 'projectile') return
+    const projectileType = component.projectileType || 'fireball'
+
+    let slot = slots.find(s => s.projectileType === projectileType && s.entityId === null)
+    if (slot) {
+      slot.entityId = entity.id
+      if (slot.group) slot.group.visible = true
+    } else {
+      // Pool exhausted - mount another slot; it shows itself once mounted
+      slot = createSlot(projectileType, entity.id)
+      setSlots(list => [...list, slot!])
+    }
+    assigned.current.set(entity.id, slot)
+  })
+
+  useWorldLifecycle('componentRemoved', ({ entity, component }) => {
+    if (component.type === 'projectile') release(entity.id)
+    if (component.type === 'spellEffect') releaseEffect(entity.id)
+  })
+
+  useWorldLifecycle('entityRemoved', ({ entity }) => {
+    release(entity.id)
+    releaseEffect(entity.id)
+  })
+
+  // Sync assigned meshes with their ECS transforms
+  useFrame(() => {
+    assigned.current.forEach((slot, entityId) => {
+      const entity = ecsWorld.getEntity(entityId)
+      const transform = entity?.getComponent('transform')
+      if (!entity || !transform || !slot.group) return
+
+      if (slot.mesh && !entity.hasComponent('mesh')) {
+        entity.addComponent(createMeshComponent(slot.mesh))
+      }
+
+      // Update position from ECS (interpolated between fixed steps)
+      getInterpolatedPosition(transform, ecsWorld.interpolationAlpha, slot.group.position)
+
+      // Rotate projectile to face movement direction
+      const projectile = entity.getComponent('projectile')
+      if (projectile) {
+        direction.subVectors(projectile.targetPosition, transform.position)
+        slot.group.rotation.y = Math.atan2(direction.x, direction.z)
+      }
+    })
+
+    // Grow each burst from its centre over its duration
+    assignedEffects.current.forEach((slot, entityId) => {
+      const spellEffect = ecsWorld.getEntity(entityId)?.getComponent('spellEffect')
+      if (!spellEffect || !slot.mesh) return
+
+      const progress = Math.min((ecsWorld.clock.time - spellEffect.startTime) / spellEffect.duration, 1)
+      slot.mesh.position.copy(spellEffect.targetPosition)
+      slot.mesh.scale.setScalar(spellEffect.radius * (EFFECT_START_SCALE + (1 - EFFECT_START_SCALE) * progress))
+      slot.mesh.visible = true
+    })
+  })
+
+  return (
+    <>
+      {slots.map((slot, index) => (
+        <Projectile key={index} slot={slot} />
+      ))}
+      {effectSlots.map((slot, index) => (
+        <SpellEffect key={`effect-${index}`} slot={slot} />
+      ))}
+    </>
+  )
+}
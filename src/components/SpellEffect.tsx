@@ -0,0 +1,53 @@
+// Visual Spell Effect Component for React Three Fiber
+// Bursts (e.g. explosions) are pooled by ProjectileRenderer like projectile
+// meshes: each instance is a reusable slot, shown while assigned to a
+// spellEffect entity. Geometry is shared, materials are shared per effect type.
+import * as THREE from 'three'
+import type { SpellEffectComponent } from '../systems/ProjectileSystem'
+
+export type SpellEffectType = SpellEffectComponent['effectType']
+
+// A pooled visual - ProjectileRenderer assigns it to entities and scales it
+export interface SpellEffectSlot {
+  effectType: SpellEffectType
+  entityId: string | null
+  mesh: THREE.Mesh | null
+}
+
+const EFFECT_COLORS: Record<SpellEffectType, string> = {
+  fireball: '#ff6600',
+  iceShard: '#88ddff',
+  lightning: '#ffff66',
+  heal: '#44ff88'
+}
+
+// Unit sphere, scaled to the effect's radius as it plays
+const geometry = new THREE.SphereGeometry(1, 16, 12)
+const materials = new Map<SpellEffectType, THREE.MeshBasicMaterial>()
+
+function getMaterial(effectType: SpellEffectType): THREE.MeshBasicMaterial {
+  let material = materials.get(effectType)
+  if (!material) {
+    material = new THREE.MeshBasicMaterial({ color: EFFECT_COLORS[effectType], transparent: true, opacity: 0.35, depthWrite: false })
+    materials.set(effectType, material)
+  }
+  return material
+}
+
+interface SpellEffectProps {
+  slot: SpellEffectSlot
+}
+
+export default function SpellEffect({ slot }: SpellEffectProps) {
+  return (
+    <mesh
+      ref={mesh => {
+        // Only visible while assigned to a spell effect
+        if (mesh) mesh.visible = slot.entityId !== null
+        slot.mesh = mesh
+      }}
+      geometry={geometry}
+      material={getMaterial(slot.effectType)}
+    />
+  )
+}
@@ -2,17 +2,18 @@ import { useRef } from 'react'
 import { useFrame } from '@react-three/fiber'
 import { useXR } from '@react-three/xr'
 import { useGameStore } from '../stores/gameStore'
-import { PlayerCombatSystem } from '../systems/PlayerCombatSystem'
 import * as THREE from 'three'
+import { logger } from '../utils/Logger'
+
+const log = logger.for('xr')
 
 // VR Controller input handling for movement and cursor control
 export default function VRControls() {
   const xr = useXR()
-  const { player, ecsWorld, movePlayerToTarget, stopPlayerMovement } = useGameStore()
+  const { player, movePlayerToTarget, stopPlayerMovement, sendInput } = useGameStore()
   
   // Refs for movement state
   const isMovingWithStick = useRef(false)
-  const combatSystemRef = useRef<PlayerCombatSystem | null>(null)
   
   // Controller input constants
   const MOVEMENT_SPEED = 3.0 // Units per second
@@ -83,13 +84,6 @@ export default function VRControls() {
 
       // RIGHT CONTROLLER - Actions and Future Cursor Control
       if (isRightController) {
-        // Get combat system reference
-        if (!combatSystemRef.current) {
-          // Access systems through ECS world
-          const worldSystems = (ecsWorld as unknown as { systems: PlayerCombatSystem[] }).systems
-          combatSystemRef.current = worldSystems.find(s => s instanceof PlayerCombatSystem) || null
-        }
-        
         // Right thumbstick for future cursor movement
         if (axes.length >= 4) {
           const x = axes[2] // Right thumbstick X
@@ -98,66 +92,42 @@ export default function VRControls() {
           const magnitude = Math.sqrt(x * x + y * y)
           if (magnitude > THUMBSTICK_DEADZONE) {
             // Future: Move cursor/reticle around the scene
-            console.log(`Right stick: X=${x.toFixed(2)}, Y=${y.toFixed(2)}`)
+            log.debug(`Right stick: X=${x.toFixed(2)}, Y=${y.toFixed(2)}`)
           }
         }
         
         // Button presses for actions
         if (buttons.length > 0) {
           // B/Y buttons for attacking
-          if (buttons[4]?.pressed && combatSystemRef.current) { // B button
-            const success = combatSystemRef.current.tryAttack()
-            if (success) {
-              console.log('B button attack!')
-            }
+          if (buttons[4]?.pressed) { // B button
+            sendInput({ kind: 'attack' })
           }
           
-          if (buttons[5]?.pressed && combatSystemRef.current) { // Y button  
-            const success = combatSystemRef.current.tryAttack()
-            if (success) {
-              console.log('Y button attack!')
-            }
+          if (buttons[5]?.pressed) { // Y button  
+            sendInput({ kind: 'attack' })
           }
           
           // Grip button for attacks
-          if (buttons[1]?.pressed && combatSystemRef.current) {
-            const success = combatSystemRef.current.tryAttack()
-            if (success) {
-              console.log('Right grip attack!')
-            }
+          if (buttons[1]?.pressed) {
+            sendInput({ kind: 'attack' })
           }
         }
       }
 
       // LEFT CONTROLLER - Additional combat options
       if (isLeftController && buttons.length > 0) {
-        // Get combat system reference
-        if (!combatSystemRef.current) {
-          const worldSystems = (ecsWorld as unknown as { systems: PlayerCombatSystem[] }).systems
-          combatSystemRef.current = worldSystems.find(s => s instanceof PlayerCombatSystem) || null
-        }
-
         // A/X buttons for skills
-        if (buttons[4]?.pressed && combatSystemRef.current) { // A button
-          const success = combatSystemRef.current.tryAttack()
-          if (success) {
-            console.log('A button skill!')
-          }
+        if (buttons[4]?.pressed) { // A button
+          sendInput({ kind: 'attack' })
         }
         
-        if (buttons[5]?.pressed && combatSystemRef.current) { // X button
-          const success = combatSystemRef.current.tryAttack()
-          if (success) {
-            console.log('X button skill!')
-          }
+        if (buttons[5]?.pressed) { // X button
+          sendInput({ kind: 'attack' })
         }
         
         // Grip button for skills
-        if (buttons[1]?.pressed && combatSystemRef.current) {
-          const success = combatSystemRef.current.tryAttack()
-          if (success) {
-            console.log('Left grip skill!')
-          }
+        if (buttons[1]?.pressed) {
+          sendInput({ kind: 'attack' })
         }
       }
     }
@@ -5,6 +5,7 @@ import { useGameStore } from '../stores/gameStore'
 import Player from './Player'
 import Monster from './Monster'
 import AdvancedMonster from './AdvancedMonster'
+import ProjectileRenderer from './ProjectileRenderer'
 import ClickToMove from './ClickToMove'
 import VRControls from './VRControls'
 import VRCursor from './VRCursor'
@@ -28,19 +29,20 @@ const CAMERA_OFFSET = new THREE.Vector3(0, 10, 10)
 
 export default function XRScene() {
   const xr = useXR()
-  const { updateECS, initializeSystems, systemManager } = useGameStore()
+  const { updateECS, initializeSystems, systemManager, workerSimulation } = useGameStore()
 
   // Initialize systems once
   useEffect(() => {
     initializeSystems()
     
-    // Register player entity with AI system
+    // Register player entity with AI system (the worker's systems too, in worker mode)
     systemManager.setPlayerEntity('player_entity')
-  }, [initializeSystems, systemManager])
+    workerSimulation?.setPlayerEntity('player_entity')
+  }, [initializeSystems, systemManager, workerSimulation])
 
   // Animation loop - runs every frame
   useFrame((_, delta) => {
-    // Update ECS systems every frame
+    // Advance the fixed-timestep simulation by this frame's time
     updateECS(delta)
   })
 
@@ -105,16 +107,20 @@ export default function XRScene() {
 
       {/* MONSTERS */}
       {/* Basic cube enemy for testing combat system */}
-      <Monster position={MONSTER_POSITIONS.monster1} health={50} aggroRange={4} />
-      <Monster position={MONSTER_POSITIONS.monster2} health={30} aggroRange={3} />
+      <Monster id="monster1" position={MONSTER_POSITIONS.monster1} health={50} aggroRange={4} />
+      <Monster id="monster2" position={MONSTER_POSITIONS.monster2} health={30} aggroRange={3} />
       
       {/* ADVANCED MONSTERS */}
       {/* Different monster types with unique abilities */}
-      <AdvancedMonster position={MONSTER_POSITIONS.archer} monsterType="fast" />
-      <AdvancedMonster position={MONSTER_POSITIONS.mage} monsterType="basic" />
-      <AdvancedMonster position={MONSTER_POSITIONS.tank} monsterType="heavy" />
-      <AdvancedMonster position={MONSTER_POSITIONS.assassin} monsterType="fast" />
-      <AdvancedMonster position={MONSTER_POSITIONS.grunt} monsterType="basic" />
+      <AdvancedMonster id="archer" position={MONSTER_POSITIONS.archer} prefab="monster.fast" />
+      <AdvancedMonster id="mage" position={MONSTER_POSITIONS.mage} prefab="monster.basic" />
+      <AdvancedMonster id="tank" position={MONSTER_POSITIONS.tank} prefab="monster.heavy" />
+      <AdvancedMonster id="assassin" position={MONSTER_POSITIONS.assassin} prefab="monster.fast" />
+      <AdvancedMonster id="grunt" position={MONSTER_POSITIONS.grunt} prefab="monster.basic" />
+
+      {/* PROJECTILES */}
+      {/* Visuals follow projectile entities as they are spawned and removed */}
+      <ProjectileRenderer />
 
       {/* CLICK-TO-MOVE SYSTEM */}
       {/* Invisible clickable floor for movement targeting */}
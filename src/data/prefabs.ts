@@ -0,0 +1,80 @@
+// Entity blueprints - add new monster variants here, no React code needed
+// Each prefab lists component field values; `extends` inherits from another
+// prefab and only the fields listed are overridden
+import type { PrefabDefinition } from '../systems/Prefabs'
+
+export const PREFABS: Record<string, PrefabDefinition> = {
+  player: {
+    components: {
+      health: { maximum: 100 },
+      mana: { maximum: 100, regeneration: 5 },
+      defence: { armour: 50, evasion: 0.1, blockChance: 0.1, maxEnergyShield: 30 },
+      combatStats: { damage: 25, attackSpeed: 1.5, attackRange: 5.0 }, // Long range for easier testing
+      faction: { faction: 'player' },
+      transform: { position: [0, 0.5, 0] },
+      movement: { speed: 3.0 }
+    }
+  },
+
+  // Small melee enemy used for basic combat testing
+  'monster.grunt': {
+    components: {
+      health: { maximum: 50 },
+      combatStats: { damage: 15, attackSpeed: 0.8, attackRange: 1.5 },
+      faction: { faction: 'enemy' },
+      transform: {},
+      ai: { aggroRange: 4 },
+      movement: { speed: 1.5 }, // Slower than player
+      appearance: { color: '#cc0000', scale: 1 }
+    }
+  },
+
+  'monster.basic': {
+    components: {
+      health: { maximum: 100 },
+      combatStats: { damage: 20, attackSpeed: 0.5 },
+      faction: { faction: 'enemy' },
+      transform: {},
+      ai: { aggroRange: 8.0 },
+      movement: { speed: 2.0 },
+      appearance: { color: '#CC0000', scale: 1 } // Normal red
+    }
+  },
+
+  'monster.heavy': {
+    extends: 'monster.basic',
+    components: {
+      health: { maximum: 150 },
+      combatStats: { damage: 30, attackWindUp: 0.6 }, // Slow, telegraphed swings
+      resistances: { cold: 30 },
+      defence: { armour: 300 }, // Armoured - shrugs off small blows
+      movement: { speed: 1.0 },
+      appearance: { color: '#8B0000', scale: 1.5, badgeColor: '#FFFFFF' } // Dark red
+    }
+  },
+
+  'monster.fast': {
+    extends: 'monster.basic',
+    components: {
+      health: { maximum: 50 },
+      combatStats: { damage: 15, attackSpeed: 1.2, attackWindUp: 0.15 },
+      resistances: { lightning: 40 },
+      defence: { evasion: 0.3 }, // Hard to hit with attacks
+      movement: { speed: 4.0 },
+      appearance: { color: '#FF4500', scale: 0.8, badgeColor: '#FFFFFF' } // Orange red
+    }
+  },
+
+  'monster.boss': {
+    extends: 'monster.basic',
+    components: {
+      health: { maximum: 300 },
+      combatStats: { damage: 50, attackRange: 2.5 }, // Long reach to match its size
+      resistances: { fire: 40, cold: 40, lightning: 40, chaos: 20 },
+      defence: { armour: 150, blockChance: 0.2, maxEnergyShield: 100 },
+      movement: { speed: 2.0 },
+      appearance: { color: '#4B0000', scale: 2.0, badgeColor: '#FFD700' }, // Very dark red, gold badge
+      boss: {}
+    }
+  }
+}
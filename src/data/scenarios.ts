@@ -0,0 +1,100 @@
+// Headless simulation scenarios - run with HeadlessRunner (src/systems/HeadlessRunner.ts)
+// Each lists its expected outcome; `npm run scenarios` fails when one doesn't hold.
+import type { Scenario } from '../systems/HeadlessRunner'
+
+export const SCENARIOS: Record<string, Scenario> = {
+  // Player trades blows with a single grunt standing in melee range
+  duel: {
+    name: 'duel',
+    seed: 1,
+    entities: [
+      { prefab: 'player', id: 'player_entity' },
+      { prefab: 'monster.grunt', id: 'grunt', overrides: { transform: { position: [1, 0.5, 0] } } }
+    ],
+    target: 'grunt',
+    // The player out-damages the grunt and wins with most of their health
+    expect: {
+      seconds: 5,
+      entities: {
+        grunt: { dead: true },
+        player_entity: { dead: false, health: [80, 100] }
+      }
+    }
+  },
+
+  // A mixed pack closes in on an idle player from a distance
+  ambush: {
+    name: 'ambush',
+    seed: 7,
+    entities: [
+      { prefab: 'player', id: 'player_entity' },
+      { prefab: 'monster.fast', id: 'fast', overrides: { transform: { position: [6, 0.5, 0] } } },
+      { prefab: 'monster.heavy', id: 'heavy', overrides: { transform: { position: [-5, 0.5, 3] } } },
+      { prefab: 'monster.basic', id: 'basic', overrides: { transform: { position: [0, 0.5, -7] } } }
+    ],
+    // Without input the player never fights back and is overrun
+    expect: {
+      seconds: 15,
+      entities: {
+        player_entity: { dead: true },
+        fast: { dead: false, health: [50, 50] },
+        heavy: { dead: false, health: [150, 150] },
+        basic: { dead: false, health: [100, 100] }
+      }
+    }
+  },
+
+  // A tight group of grunts just outside aggro range - one fireball explosion hits them all
+  pack: {
+    name: 'pack',
+    seed: 3,
+    entities: [
+      { prefab: 'player', id: 'player_entity' },
+      { prefab: 'monster.grunt', id: 'm1', overrides: { transform: { position: [8, 0.5, 0] } } },
+      { prefab: 'monster.grunt', id: 'm2', overrides: { transform: { position: [8.5, 0.5, 1] } } },
+      { prefab: 'monster.grunt', id: 'm3', overrides: { transform: { position: [8, 0.5, -1] } } },
+      { prefab: 'monster.grunt', id: 'm4', overrides: { transform: { position: [9, 0.5, 0.5] } } }
+    ],
+    target: 'm1',
+    // A fireball at m1 kills it and the explosion wounds the rest; mana is spent and partly regenerated
+    expect: {
+      seconds: 3,
+      inputs: [{ at: 1, command: { kind: 'castSkill', skillId: 'fireball', targetPosition: [8, 0.5, 0] } }],
+      entities: {
+        m1: { dead: true },
+        m2: { dead: false, health: [30, 45] },
+        m3: { dead: false, health: [30, 45] },
+        m4: { dead: false, health: [30, 45] },
+        player_entity: { mana: [85, 95] }
+      }
+    }
+  },
+
+  // Two grunts far apart, one with high fire resistance - a fireball each
+  warded: {
+    name: 'warded',
+    seed: 5,
+    entities: [
+      { prefab: 'player', id: 'player_entity' },
+      { prefab: 'monster.grunt', id: 'plain', overrides: { transform: { position: [8, 0.5, -4] } } },
+      {
+        prefab: 'monster.grunt',
+        id: 'warded',
+        overrides: { transform: { position: [8, 0.5, 4] }, resistances: { fire: 75 } }
+      }
+    ],
+    // The fireball that kills the plain grunt leaves the warded one standing
+    expect: {
+      seconds: 5,
+      inputs: [
+        { at: 0.5, command: { kind: 'castSkill', skillId: 'fireball', targetPosition: [8, 0.5, -4] } },
+        { at: 3, command: { kind: 'castSkill', skillId: 'fireball', targetPosition: [8, 0.5, 4] } }
+      ],
+      entities: {
+        plain: { dead: true },
+        warded: { dead: false, health: [20, 40] },
+        player_entity: { mana: [75, 90] }
+      }
+    }
+  }
+}
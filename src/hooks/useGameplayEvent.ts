@@ -0,0 +1,21 @@
+import { useEffect, useRef } from 'react'
+import { useGameStore } from '../stores/gameStore'
+import type { GameplayEvents } from '../systems/GameplayEvents'
+
+// Subscribe a React component to gameplay events (damage, deaths, casts...)
+// The latest listener is always called, so callers don't need to memoize it
+export function useGameplayEvent<K extends keyof GameplayEvents>(
+  event: K,
+  listener: (payload: GameplayEvents[K]) => void
+) {
+  const { ecsWorld } = useGameStore()
+  const listenerRef = useRef(listener)
+
+  useEffect(() => {
+    listenerRef.current = listener
+  })
+
+  useEffect(() => {
+    return ecsWorld.events.on(event, payload => listenerRef.current(payload))
+  }, [ecsWorld, event])
+}
@@ -0,0 +1,21 @@
+import { useEffect, useRef } from 'react'
+import { useGameStore } from '../stores/gameStore'
+import type { WorldLifecycleEvents } from '../systems/ECS'
+
+// Subscribe a React component to ECS world lifecycle events
+// The latest listener is always called, so callers don't need to memoize it
+export function useWorldLifecycle<K extends keyof WorldLifecycleEvents>(
+  event: K,
+  listener: (payload: WorldLifecycleEvents[K]) => void
+) {
+  const { ecsWorld } = useGameStore()
+  const listenerRef = useRef(listener)
+
+  useEffect(() => {
+    listenerRef.current = listener
+  })
+
+  useEffect(() => {
+    return ecsWorld.on(event, payload => listenerRef.current(payload))
+  }, [ecsWorld, event])
+}
@@ -2,6 +2,11 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { logger } from './utils/Logger'
+
+// Expose the logger for runtime toggles from the (remote) browser console,
+// e.g. logger.setLevel('combat', 'debug') or logger.disable('ai')
+;(window as unknown as { logger: typeof logger }).logger = logger
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
@@ -1,7 +1,32 @@
 import { create } from 'zustand'
 import * as THREE from 'three'
 import { ECSWorld } from '../systems/ECS'
+import type { ComponentType } from '../systems/ECS'
 import { SystemManager } from '../systems/SystemManager'
+import type { PlayerCombatSystem } from '../systems/PlayerCombatSystem'
+import { createSnapshot, restoreSnapshot, serializeSnapshot, parseSnapshot } from '../systems/Snapshot'
+import { serializeRecording, parseRecording } from '../systems/InputSystem'
+import { logGameplayEvents } from '../systems/GameplayEvents'
+import type { InputSystem, InputCommand } from '../systems/InputSystem'
+import { setComponentField } from '../systems/Inspection'
+import type { SystemTiming } from '../systems/Profiler'
+import { applyTimeControl } from '../systems/SimulationClock'
+import type { TimeControl } from '../systems/SimulationClock'
+import { WorkerSimulation } from '../workers/WorkerSimulation'
+import { logger } from '../utils/Logger'
+
+const log = logger.for('ecs')
+
+// 'worker' runs the ECS systems in a Web Worker (open the app with ?sim=worker);
+// ecsWorld is then a mirror that render components read as usual
+type SimulationMode = 'main' | 'worker'
+
+// Slow-motion range for setTimeScale
+const MIN_TIME_SCALE = 0.125
+const MAX_TIME_SCALE = 2
+
+const simulationMode: SimulationMode =
+  typeof location !== 'undefined' && new URLSearchParams(location.search).get('sim') === 'worker' ? 'worker' : 'main'
 
 // Player state interface
 interface PlayerState {
@@ -18,7 +43,15 @@ interface GameStore {
   player: PlayerState
   ecsWorld: ECSWorld
   systemManager: SystemManager
+  simulationMode: SimulationMode
+  workerSimulation: WorkerSimulation | null
   currentTarget: string | null
+  quickSaveSlot: string | null // Serialized WorldSnapshot
+  inputMode: 'live' | 'recording' | 'replaying'
+  inspectorOpen: boolean
+  inspectedEntity: string | null
+  isPaused: boolean
+  timeScale: number
   
   // Player actions
   setPlayerPosition: (position: THREE.Vector3) => void
@@ -33,22 +66,78 @@ interface GameStore {
   movePlayerToTarget: (target: THREE.Vector3) => void
   stopPlayerMovement: () => void
   
+  // Input - every player action reaches the simulation through the input system
+  sendInput: (command: InputCommand) => void
+  startRecording: () => void
+  stopRecording: () => string | null // Serialized InputRecording
+  playRecording: (json: string) => void
+
+  // Simulation time controls - rendering and VR head tracking keep running while paused
+  setPaused: (paused: boolean) => void
+  togglePause: () => void
+  setTimeScale: (scale: number) => void
+  stepSimulation: (steps?: number) => void // Pause and run single ticks
+
+  // Developer inspector (toggle with the backquote key)
+  toggleInspector: () => void
+  inspectEntity: (entityId: string | null) => void
+  editComponentField: (entityId: string, componentType: ComponentType, field: string, value: number) => void
+  getSystemTimings: () => SystemTiming[]
+
   // ECS helpers
-  updateECS: (deltaTime: number) => void
+  updateECS: (frameDelta: number) => void
   initializeSystems: () => void
   respawnPlayer: () => void
+
+  // Snapshot helpers
+  exportSnapshot: () => string
+  importSnapshot: (json: string) => void // Throws on a bad snapshot, leaving the world unchanged
+  quickSave: () => void
+  quickLoad: () => boolean // False if there is no save or it could not be loaded
 }
 
 // Create the game store
 export const useGameStore = create<GameStore>((set, get) => {
-  // Initialize ECS World
+  // Initialize ECS World (log the seed so a session's randomness can be reproduced)
   const ecsWorld = new ECSWorld()
+  log.info(`🎲 ECS world seed: ${ecsWorld.random.seed}`)
+  logGameplayEvents(ecsWorld) // Console combat log for development
   const systemManager = SystemManager.getInstance(ecsWorld)
+  const workerSimulation = simulationMode === 'worker' ? new WorkerSimulation(ecsWorld) : null
+
+  // Snapshots and recordings need the live world, which the worker owns
+  const isWorkerMode = (action: string) => {
+    if (workerSimulation) log.warn(`${action} is not available when the simulation runs in a worker`)
+    return workerSimulation !== null
+  }
+
+  // Time controls apply to whichever side runs the systems
+  const applyTime = (control: TimeControl) => {
+    if (workerSimulation) {
+      workerSimulation.setTimeControl(control)
+    } else {
+      applyTimeControl(ecsWorld.clock, control)
+    }
+  }
+
+  // Freeze the fight behind the death screen - respawning resumes it
+  ecsWorld.events.on('entityDied', ({ entity }) => {
+    const { inputMode, setPaused } = get()
+    if (entity === 'player_entity' && inputMode !== 'replaying') setPaused(true)
+  })
   
   return {
     ecsWorld,
     systemManager,
+    simulationMode,
+    workerSimulation,
     currentTarget: null,
+    quickSaveSlot: null,
+    inputMode: 'live',
+    inspectorOpen: false,
+    inspectedEntity: null,
+    isPaused: false,
+    timeScale: 1,
     
     // Initial player state
     player: {
@@ -101,18 +190,20 @@ export const useGameStore = create<GameStore>((set, get) => {
         player: { ...state.player, rotationY }
       })),
 
-    // Helper: Start movement to target
+    // Helper: Start movement to target (the simulation moves the player)
     movePlayerToTarget: (target: THREE.Vector3) => {
-      const { setPlayerTarget, setPlayerMoving } = get()
+      const { setPlayerTarget, setPlayerMoving, sendInput } = get()
       setPlayerTarget(target)
       setPlayerMoving(true)
+      sendInput({ kind: 'moveTo', position: [target.x, target.y, target.z] })
     },
 
     // Helper: Stop all movement
     stopPlayerMovement: () => {
-      const { setPlayerTarget, setPlayerMoving } = get()
+      const { setPlayerTarget, setPlayerMoving, sendInput } = get()
       setPlayerTarget(null)
       setPlayerMoving(false)
+      sendInput({ kind: 'stop' })
     },
 
     // Set current combat target
@@ -121,65 +212,205 @@ export const useGameStore = create<GameStore>((set, get) => {
       
       // Allow target switching regardless of previous target status
       if (currentTarget !== entityId) {
-        console.log(`🎯 Switching target from ${currentTarget} to ${entityId}`)
+        log.debug(`🎯 Switching target from ${currentTarget} to ${entityId}`)
         set({ currentTarget: entityId })
         
         // Also set target in combat system
-        const { ecsWorld } = get()
-        const worldSystems = (ecsWorld as any).systems
-        const combatSystem = worldSystems?.find((s: any) => s.constructor.name === 'PlayerCombatSystem')
-        if (combatSystem) {
-          combatSystem.setTarget(entityId)
-        }
+        get().sendInput({ kind: 'setTarget', entityId })
+      }
+    },
+
+    // Queue input for the next simulation step (ignored during replays)
+    sendInput: (command: InputCommand) => {
+      const { ecsWorld, workerSimulation } = get()
+      if (workerSimulation) {
+        workerSimulation.input(command)
+        return
       }
+      ecsWorld.getSystem<InputSystem>('input')?.enqueue(command)
+    },
+
+    startRecording: () => {
+      if (isWorkerMode('Input recording')) return
+      const { ecsWorld } = get()
+      const input = ecsWorld.getSystem<InputSystem>('input')
+      if (!input || input.isReplaying) return
+      input.startRecording()
+      set({ inputMode: 'recording' })
+      log.info(`⏺️ Recording inputs from tick ${ecsWorld.clock.tick}`)
     },
 
-    // ECS update loop
-    updateECS: (deltaTime: number) => {
+    stopRecording: () => {
+      if (isWorkerMode('Input recording')) return null
       const { ecsWorld } = get()
-      ecsWorld.update(deltaTime)
+      const recording = ecsWorld.getSystem<InputSystem>('input')?.stopRecording()
+      set({ inputMode: 'live' })
+      if (!recording) return null
+      log.info(`⏹️ Recorded ${recording.inputs.length} inputs over ${recording.endTick - recording.startTick} ticks`)
+      return serializeRecording(recording)
+    },
+
+    // Reproduce a recorded session from its start snapshot
+    playRecording: (json: string) => {
+      if (isWorkerMode('Replay')) return
+      const { ecsWorld } = get()
+      const input = ecsWorld.getSystem<InputSystem>('input')
+      if (!input) return
+      const recording = parseRecording(json)
+      input.startReplay(recording)
+      set({ inputMode: 'replaying' })
+      log.info(`▶️ Replaying ${recording.inputs.length} inputs (ticks ${recording.startTick}-${recording.endTick})`)
+    },
+
+    setPaused: (paused: boolean) => {
+      const { isPaused, timeScale } = get()
+      if (paused === isPaused) return
+      applyTime({ paused, timeScale, steps: 0 })
+      set({ isPaused: paused })
+      log.info(paused ? '⏸️ Simulation paused' : '▶️ Simulation resumed')
+    },
+
+    togglePause: () => {
+      const { isPaused, setPaused } = get()
+      setPaused(!isPaused)
+    },
+
+    setTimeScale: (scale: number) => {
+      const timeScale = Math.min(MAX_TIME_SCALE, Math.max(MIN_TIME_SCALE, scale))
+      applyTime({ paused: get().isPaused, timeScale, steps: 0 })
+      set({ timeScale })
+      log.info(`⏱️ Time scale ${timeScale}x`)
+    },
+
+    stepSimulation: (steps = 1) => {
+      const { timeScale } = get()
+      applyTime({ paused: true, timeScale, steps })
+      set({ isPaused: true })
+    },
+
+    // Show/hide the inspector; system timings are only collected while it is open
+    toggleInspector: () => {
+      const { ecsWorld, workerSimulation, inspectorOpen } = get()
+      const open = !inspectorOpen
+      if (workerSimulation) {
+        workerSimulation.setProfiling(open)
+      } else {
+        ecsWorld.profiler.enabled = open
+      }
+      set({ inspectorOpen: open })
+    },
+
+    inspectEntity: (entityId: string | null) => set({ inspectedEntity: entityId }),
+
+    // Inspector edits of numeric component fields (health, damage, speed, ...)
+    editComponentField: (entityId, componentType, field, value) => {
+      const { ecsWorld, workerSimulation } = get()
+      if (workerSimulation) {
+        workerSimulation.setField(entityId, componentType, field, value)
+      } else {
+        setComponentField(ecsWorld, entityId, componentType, field, value)
+      }
+      log.debug(`🛠️ ${entityId}.${componentType}.${field} = ${value}`)
+    },
+
+    getSystemTimings: () => {
+      const { ecsWorld, workerSimulation } = get()
+      return workerSimulation ? workerSimulation.timings : ecsWorld.profiler.getTimings()
+    },
+
+    // ECS update loop - feeds the render frame delta into the fixed-step simulation
+    updateECS: (frameDelta: number) => {
+      const { ecsWorld, workerSimulation, inputMode, currentTarget } = get()
+      if (workerSimulation) {
+        workerSimulation.advance(frameDelta)
+        return
+      }
+      ecsWorld.advance(frameDelta)
+
+      // Live targeting is driven by the UI; during a replay mirror the simulation
+      if (inputMode === 'replaying') {
+        const input = ecsWorld.getSystem<InputSystem>('input')
+        const combatTarget = ecsWorld.getSystem<PlayerCombatSystem>('playerCombat')?.getCurrentTarget() ?? null
+        if (combatTarget !== currentTarget) set({ currentTarget: combatTarget })
+        if (!input?.isReplaying) set({ inputMode: 'live' })
+      }
     },
 
     // Initialize all systems
     initializeSystems: () => {
-      const { systemManager, setCurrentTarget } = get()
+      const { ecsWorld, workerSimulation, systemManager, setCurrentTarget } = get()
+
+      // The worker runs the systems - just clear the target when it dies
+      if (workerSimulation) {
+        ecsWorld.events.on('entityDied', ({ entity }) => {
+          if (get().currentTarget === entity) setCurrentTarget(null)
+        })
+        return
+      }
+
       systemManager.initializeSystems()
       
       // Set up combat system callback to clear target when monster dies
-      const playerCombatSystem = systemManager.getSystem('playerCombat') as any
-      if (playerCombatSystem && typeof playerCombatSystem.setClearTargetCallback === 'function') {
+      const playerCombatSystem = systemManager.getSystem<PlayerCombatSystem>('playerCombat')
+      if (playerCombatSystem) {
         playerCombatSystem.setClearTargetCallback(setCurrentTarget)
       }
     },
 
     // Respawn player
     respawnPlayer: () => {
-      console.log('🔄 Respawning player...')
-      const { ecsWorld, setPlayerPosition, setPlayerTarget, setPlayerMoving, setCurrentTarget } = get()
+      log.info('🔄 Respawning player...')
+      const { setPlayerPosition, setPlayerTarget, setPlayerMoving, setPaused, sendInput } = get()
       
       // Reset player position and movement
       const spawnPosition = new THREE.Vector3(0, 0.5, 0)
       setPlayerPosition(spawnPosition)
       setPlayerTarget(null)
       setPlayerMoving(false)
-      setCurrentTarget(null)
-      console.log('✅ Player position and movement reset')
+      set({ currentTarget: null })
       
-      // Reset player health in ECS
-      const playerEntity = ecsWorld.getEntity('player_entity')
-      if (playerEntity) {
-        const healthComponent = playerEntity.getComponent('health') as any
-        if (healthComponent) {
-          console.log(`🏥 Player health before respawn: ${healthComponent.current}/${healthComponent.maximum}`)
-          healthComponent.current = healthComponent.maximum
-          console.log(`🏥 Player health after respawn: ${healthComponent.current}/${healthComponent.maximum}`)
-        } else {
-          console.log('❌ No health component found on player entity')
-        }
-      } else {
-        console.log('❌ No player entity found')
+      // Health, position and target are reset in the simulation on the next step
+      setPaused(false)
+      sendInput({ kind: 'respawn' })
+      log.info('🔄 Respawn queued')
+    },
+
+    // Serialize the whole simulation (save games, bug reports)
+    exportSnapshot: () => {
+      const { ecsWorld } = get()
+      return serializeSnapshot(createSnapshot(ecsWorld))
+    },
+
+    // Restore a serialized simulation in place
+    importSnapshot: (json: string) => {
+      if (isWorkerMode('Loading snapshots')) return
+      const { ecsWorld } = get()
+      restoreSnapshot(ecsWorld, parseSnapshot(json))
+      log.info(`📂 Snapshot loaded (tick ${ecsWorld.clock.tick})`)
+    },
+
+    // Keep one in-memory snapshot for quick restarts of a test scenario
+    quickSave: () => {
+      if (isWorkerMode('Quick save')) return
+      const { exportSnapshot } = get()
+      set({ quickSaveSlot: exportSnapshot() })
+      log.info('💾 Quick save stored')
+    },
+
+    quickLoad: () => {
+      if (isWorkerMode('Quick load')) return false
+      const { quickSaveSlot, importSnapshot } = get()
+      if (!quickSaveSlot) {
+        log.warn('❌ No quick save to load')
+        return false
+      }
+      try {
+        importSnapshot(quickSaveSlot)
+        return true
+      } catch (error) {
+        log.error(`❌ Quick load failed: ${error instanceof Error ? error.message : String(error)}`)
+        return false
       }
-      console.log('🔄 Respawn complete')
     },
   }
 })
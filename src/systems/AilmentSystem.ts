@@ -0,0 +1,62 @@
+// Ailment System - ticks burn damage and expires ailments
+// Ailments are inflicted by hits (see Damage.ts and Ailments.ts); this system
+// only advances them. Dead entities lose all their ailments.
+import { System, ECSWorld, Entity, Query } from './ECS'
+import { applyDamage } from './Damage'
+import { BURN_TICK_INTERVAL } from './Ailments'
+import type { AilmentsComponent } from './Ailments'
+
+export class AilmentSystem extends System {
+  readonly name = 'ailments'
+
+  private afflicted!: Query<readonly ['ailments', 'health']>
+  private unsubscribe: (() => void) | null = null
+
+  attach(world: ECSWorld): void {
+    super.attach(world)
+    this.afflicted = world.query({ with: ['ailments', 'health'], without: ['dead'] })
+
+    this.unsubscribe = world.events.on('entityDied', ({ entity }) => {
+      const target = world.getEntity(entity)
+      const ailments = target?.getComponent('ailments')
+      if (target && ailments) this.clear(target, ailments)
+    })
+  }
+
+  detach(): void {
+    this.unsubscribe?.()
+    this.unsubscribe = null
+  }
+
+  update(): void {
+    const time = this.world.clock.time
+
+    this.afflicted.forEach((entity, [ailments]) => {
+      if (ailments.active.length === 0) return
+
+      // Burns deal their combined damage every tick, credited to the strongest burn's source
+      const burns = ailments.active.filter(ailment => ailment.type === 'burn')
+      if (burns.length > 0 && time >= ailments.nextBurnTick) {
+        const damagePerSecond = burns.reduce((total, burn) => total + burn.magnitude, 0)
+        const strongest = burns.reduce((best, burn) => burn.magnitude > best.magnitude ? burn : best)
+        ailments.nextBurnTick = time + BURN_TICK_INTERVAL
+        applyDamage(this.world, entity, {
+          source: strongest.source,
+          kind: 'dot',
+          damage: { fire: damagePerSecond * BURN_TICK_INTERVAL }
+        })
+      }
+
+      const wasFrozen = ailments.active.some(ailment => ailment.type === 'freeze')
+      ailments.active = ailments.active.filter(ailment => ailment.expiresAt > time)
+      if (wasFrozen && !ailments.active.some(ailment => ailment.type === 'freeze')) {
+        this.world.commands.removeComponent(entity.id, 'frozen')
+      }
+    })
+  }
+
+  private clear(entity: Entity, ailments: AilmentsComponent): void {
+    ailments.active = []
+    if (entity.hasComponent('frozen')) this.world.commands.removeComponent(entity.id, 'frozen')
+  }
+}
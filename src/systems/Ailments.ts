@@ -0,0 +1,131 @@
+// Ailments - timed status effects inflicted by hits
+// burn deals fire damage over time, chill slows movement, freeze stops the
+// entity acting (via the 'frozen' tag) and shock increases damage taken.
+// Hits list their ailment chances; AilmentSystem ticks burns and expires them.
+import type { Component, ECSWorld, Entity, EntityId } from './ECS'
+import { createTag } from './Tags'
+
+export type AilmentType = 'burn' | 'chill' | 'freeze' | 'shock'
+
+export const AILMENT_TYPES: readonly AilmentType[] = ['burn', 'chill', 'freeze', 'shock']
+
+export interface Ailment {
+  type: AilmentType
+  // burn: fire damage per second, chill: fraction of speed lost,
+  // shock: fraction of extra damage taken, freeze: unused (1)
+  magnitude: number
+  expiresAt: number // Simulation time (ECSWorld.clock.time)
+  source: EntityId | null
+}
+
+export interface AilmentsComponent extends Component {
+  type: 'ailments'
+  active: Ailment[]
+  nextBurnTick: number // Simulation time of the next burn damage tick
+}
+
+// Chance for a hit to inflict an ailment (listed on skills, carried by hits)
+export interface AilmentChance {
+  type: AilmentType
+  chance: number // 0-1
+  duration: number // Seconds
+  magnitude: number // For burn: fraction of the hit's fire damage dealt per second
+}
+
+// Stacking rules - up to maxStacks instances per type. When full, a new
+// ailment replaces the weakest instance if it is stronger, or refreshes its
+// duration if it is equally strong. Magnitudes are capped at maxMagnitude.
+export const AILMENT_RULES: Record<AilmentType, { maxStacks: number; maxMagnitude: number }> = {
+  burn: { maxStacks: 3, maxMagnitude: Infinity },
+  chill: { maxStacks: 1, maxMagnitude: 0.5 },
+  freeze: { maxStacks: 1, maxMagnitude: 1 },
+  shock: { maxStacks: 1, maxMagnitude: 0.5 }
+}
+
+// Indicator colours for renderers
+export const AILMENT_COLORS: Record<AilmentType, string> = {
+  burn: '#ff6600',
+  chill: '#66ccff',
+  freeze: '#e0f7ff',
+  shock: '#ffee33'
+}
+
+export const BURN_TICK_INTERVAL = 0.5 // Seconds between burn damage ticks
+
+declare module './ECS' {
+  interface ComponentRegistry {
+    ailments: AilmentsComponent
+  }
+}
+
+export const createAilmentsComponent = (): AilmentsComponent => ({
+  type: 'ailments',
+  active: [],
+  nextBurnTick: 0
+})
+
+// Inflict an ailment following the stacking rules. Returns false if a
+// stronger ailment of the same type already fills every stack.
+export function inflictAilment(
+  world: ECSWorld,
+  target: Entity,
+  type: AilmentType,
+  magnitude: number,
+  duration: number,
+  source: EntityId | null
+): boolean {
+  const rules = AILMENT_RULES[type]
+  const ailment: Ailment = {
+    type,
+    magnitude: Math.min(magnitude, rules.maxMagnitude),
+    expiresAt: world.clock.time + duration,
+    source
+  }
+
+  let ailments = target.getComponent('ailments')
+  if (!ailments) {
+    ailments = createAilmentsComponent()
+    target.addComponent(ailments) // Safe mid-step - no query filters on 'ailments' alone
+  }
+
+  const stacks = ailments.active.filter(existing => existing.type === type)
+  if (stacks.length < rules.maxStacks) {
+    if (type === 'burn' && stacks.length === 0) ailments.nextBurnTick = world.clock.time + BURN_TICK_INTERVAL
+    ailments.active.push(ailment)
+  } else {
+    const weakest = stacks.reduce((weakest, existing) => existing.magnitude < weakest.magnitude ? existing : weakest)
+    if (ailment.magnitude > weakest.magnitude) {
+      Object.assign(weakest, ailment)
+    } else if (ailment.magnitude === weakest.magnitude) {
+      weakest.expiresAt = Math.max(weakest.expiresAt, ailment.expiresAt)
+      weakest.source = source
+    } else {
+      return false
+    }
+  }
+
+  // Tagged at the next sync point - callers may be iterating a query
+  if (type === 'freeze' && !target.hasComponent('frozen')) {
+    world.commands.addComponent(target.id, createTag('frozen'))
+  }
+  world.events.emit('ailmentApplied', { entity: target.id, source, ailment: type, duration })
+  return true
+}
+
+// Strongest active magnitude of one ailment type (0 when not afflicted)
+export function ailmentMagnitude(entity: Entity, type: AilmentType): number {
+  const ailments = entity.getComponent('ailments')
+  if (!ailments) return 0
+  return ailments.active.reduce((strongest, ailment) =>
+    ailment.type === type ? Math.max(strongest, ailment.magnitude) : strongest, 0)
+}
+
+export function hasAilment(entity: Entity, type: AilmentType): boolean {
+  return !!entity.getComponent('ailments')?.active.some(ailment => ailment.type === type)
+}
+
+// Current movement speed after chill
+export function movementSpeed(entity: Entity): number {
+  const movement = entity.getComponent('movement')
+  return movement ? movement.speed * (1 - ailmentMagnitude(entity, 'chill')) : 0
+}
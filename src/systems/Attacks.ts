@@ -0,0 +1,96 @@
+// Basic attacks - swing timing shared by the player and monsters
+// All timing comes from the attacker's combatStats: a swing starts when the
+// attacker is ready and the target is within attackRange, the hit lands at
+// the hit frame (attackWindUp share of the attack interval, 1 / attackSpeed)
+// and the next swing can start one interval after this one began. A swing is
+// cancelled - and the attacker ready again - if the target dies or leaves
+// range before the hit frame, or the attacker is stunned, frozen or killed.
+import type { Component, ECSWorld, Entity, EntityId } from './ECS'
+import { isAlive } from './Tags'
+
+const MIN_ATTACK_SPEED = 0.1 // Attacks per second - keeps the interval finite
+
+export interface SwingComponent extends Component {
+  type: 'swing'
+  target: EntityId | null // Target of the swing in progress (null between swings)
+  hitAt: number // Simulation time of the hit frame
+  readyAt: number // Earliest simulation time the next swing can start
+}
+
+declare module './ECS' {
+  interface ComponentRegistry {
+    swing: SwingComponent
+  }
+}
+
+export const createSwingComponent = (): SwingComponent => ({
+  type: 'swing',
+  target: null,
+  hitAt: 0,
+  readyAt: 0
+})
+
+// What updateSwing did this step
+export type SwingPhase = 'outOfRange' | 'cooldown' | 'windUp' | 'hit'
+
+// Seconds between swings
+export function attackInterval(attacker: Entity): number {
+  const stats = attacker.getComponent('combatStats')
+  return 1 / Math.max(stats?.attackSpeed || 0, MIN_ATTACK_SPEED)
+}
+
+export function inAttackRange(attacker: Entity, target: Entity): boolean {
+  const stats = attacker.getComponent('combatStats')
+  const from = attacker.getComponent('transform')
+  const to = target.getComponent('transform')
+  return !!stats && !!from && !!to && from.position.distanceTo(to.position) <= stats.attackRange
+}
+
+// Not mid-swing and past the previous swing's interval
+export function isSwingReady(world: ECSWorld, attacker: Entity): boolean {
+  const swing = attacker.getComponent('swing')
+  return !swing || (!swing.target && world.clock.time >= swing.readyAt)
+}
+
+// Advance the attacker's swing against the target, calling strike() at the hit frame
+export function updateSwing(world: ECSWorld, attacker: Entity, target: Entity, strike: () => void): SwingPhase {
+  const stats = attacker.getComponent('combatStats')
+  if (!stats) return 'outOfRange'
+
+  let swing = attacker.getComponent('swing')
+  if (!swing) {
+    swing = createSwingComponent()
+    attacker.addComponent(swing) // Safe mid-step - no query filters on 'swing'
+  }
+
+  const time = world.clock.time
+  const inRange = inAttackRange(attacker, target) && isAlive(target)
+
+  // A swing at someone else, or at a target that got away, is abandoned
+  if (swing.target && (swing.target !== target.id || !inRange)) cancelSwing(world, attacker)
+  if (!inRange) return 'outOfRange'
+
+  if (!swing.target) {
+    if (time < swing.readyAt) return 'cooldown'
+
+    const interval = attackInterval(attacker)
+    swing.target = target.id
+    swing.hitAt = time + interval * stats.attackWindUp
+    swing.readyAt = time + interval
+    world.events.emit('attackStarted', { source: attacker.id, target: target.id, windUp: swing.hitAt - time })
+  }
+
+  if (time < swing.hitAt) return 'windUp'
+
+  swing.target = null
+  strike()
+  return 'hit'
+}
+
+// Abandon the swing in progress; the attacker may start a new one at once
+export function cancelSwing(world: ECSWorld, attacker: Entity): void {
+  const swing = attacker.getComponent('swing')
+  if (!swing?.target) return
+  swing.target = null
+  swing.readyAt = world.clock.time
+}
@@ -1,17 +1,27 @@
 // Collision System - Prevents entities from overlapping
-import { System, Entity } from './ECS'
+import { System, Entity, ECSWorld, Query, type SystemPhase } from './ECS'
 import type { TransformComponent } from './CombatComponents'
 import * as THREE from 'three'
 
 export class CollisionSystem extends System {
+  readonly name = 'collision'
+  readonly phase: SystemPhase = 'physics'
+  readonly runAfter = ['monsterAI', 'projectiles'] // Separate entities after AI movement
+
   private readonly COLLISION_RADIUS = 0.5 // Base collision radius for entities
   private readonly SEPARATION_FORCE = 2.0 // How strong the separation force is
 
-  update(entities: Entity[], deltaTime: number): void {
-    // Get all entities with transform components
-    const collidableEntities = entities.filter(entity => 
-      entity.hasComponent('transform')
-    )
+  private collidables!: Query
+
+  attach(world: ECSWorld): void {
+    super.attach(world)
+    // Attached children move with their parent and never push it around
+    this.collidables = world.query({ with: ['transform'], without: ['parent'] })
+  }
+
+  update(deltaTime: number): void {
+    // All entities with transform components
+    const collidableEntities = this.collidables.entities
 
     // Check collisions between all pairs of entities
     for (let i = 0; i < collidableEntities.length; i++) {
@@ -22,8 +32,8 @@ export class CollisionSystem extends System {
   }
 
   private resolveCollision(entityA: Entity, entityB: Entity, deltaTime: number) {
-    const transformA = entityA.getComponent<TransformComponent>('transform')!
-    const transformB = entityB.getComponent<TransformComponent>('transform')!
+    const transformA = entityA.getComponent('transform')!
+    const transformB = entityB.getComponent('transform')!
 
     // Calculate distance between entities
     const positionA = transformA.position
@@ -2,6 +2,14 @@
 import * as THREE from 'three'
 import type { Component } from './ECS'
 
+// Kind of damage a hit deals (melee is physical, spells use their element)
+export type DamageType = 'physical' | 'fire' | 'cold' | 'lightning' | 'chaos'
+
+export const DAMAGE_TYPES: readonly DamageType[] = ['physical', 'fire', 'cold', 'lightning', 'chaos']
+
+// Amount per damage type, e.g. { physical: 7, fire: 28 } - missing types are 0
+export type DamageValues = Partial<Record<DamageType, number>>
+
 // Health and vital stats
 export interface HealthComponent extends Component {
   type: 'health'
@@ -10,17 +18,46 @@ export interface HealthComponent extends Component {
   regeneration: number // HP per second
 }
 
+// Mana pays for skills (casters without it cast for free)
+export interface ManaComponent extends Component {
+  type: 'mana'
+  current: number
+  maximum: number
+  regeneration: number // Mana per second
+}
+
 // Combat statistics
 export interface CombatStatsComponent extends Component {
   type: 'combatStats'
   damage: number
   attackSpeed: number // Attacks per second
   attackRange: number
+  attackWindUp: number // 0-1, share of the attack interval before the hit lands
   accuracy: number // 0-1, chance to hit
   criticalChance: number // 0-1, chance for critical hit
   criticalMultiplier: number // Damage multiplier for crits
 }
 
+// Percent of each damage type ignored (negative values take extra damage).
+// Values above `maximum` have no effect until penetration or curses lower them.
+export interface ResistanceComponent extends Component, Record<DamageType, number> {
+  type: 'resistances'
+  maximum: number // Resistance cap, percent
+}
+
+// Defensive layers applied by the hit resolver (Damage.ts), in order:
+// evasion, block, armour (with resistances), then energy shield before life
+export interface DefenceComponent extends Component {
+  type: 'defence'
+  evasion: number // 0-1, chance to avoid attacks
+  blockChance: number // 0-1, chance to block attacks and spells
+  armour: number // Physical reduction - less effective against big hits
+  energyShield: number // Absorbs damage before health
+  maxEnergyShield: number
+  energyShieldRecharge: number // Per second, once undamaged for a while
+  lastDamagedAt: number // Simulation time of the last hit taken
+}
+
 // Team/faction system (player vs enemies vs neutrals)
 export interface FactionComponent extends Component {
   type: 'faction'
@@ -34,6 +71,9 @@ export interface TransformComponent extends Component {
   position: THREE.Vector3
   rotation: THREE.Euler
   scale: THREE.Vector3
+  // State at the start of the latest simulation step (for render interpolation)
+  previousPosition: THREE.Vector3
+  previousRotation: THREE.Euler
 }
 
 // 3D mesh for rendering
@@ -43,15 +83,21 @@ export interface MeshComponent extends Component {
   visible: boolean
 }
 
+// Render-agnostic look of an entity (data, so prefabs can define it)
+export interface AppearanceComponent extends Component {
+  type: 'appearance'
+  color: string
+  scale: number
+  badgeColor?: string // Floating badge above variants (e.g. gold for bosses)
+}
+
 // AI behavior for enemies
 export interface AIComponent extends Component {
   type: 'ai'
   state: 'idle' | 'patrol' | 'chase' | 'attack' | 'dead'
   target?: string // Entity ID of current target
   lastTargetPosition?: THREE.Vector3
-  aggroRange: number
-  attackCooldown: number
-  lastAttackTime: number
+  aggroRange: number // Attack timing and range come from combatStats (see Attacks.ts)
 }
 
 // Movement and physics
@@ -63,6 +109,23 @@ export interface MovementComponent extends Component {
   targetPosition?: THREE.Vector3
 }
 
+// Register combat components so getComponent('health') etc. are typed
+declare module './ECS' {
+  interface ComponentRegistry {
+    health: HealthComponent
+    mana: ManaComponent
+    combatStats: CombatStatsComponent
+    resistances: ResistanceComponent
+    defence: DefenceComponent
+    faction: FactionComponent
+    transform: TransformComponent
+    mesh: MeshComponent
+    appearance: AppearanceComponent
+    ai: AIComponent
+    movement: MovementComponent
+  }
+}
+
 // Helper functions to create components with default values
 export const createHealthComponent = (max = 100): HealthComponent => ({
   type: 'health',
@@ -71,29 +134,61 @@ export const createHealthComponent = (max = 100): HealthComponent => ({
   regeneration: 1
 })
 
+export const createManaComponent = (max = 100, regeneration = 4): ManaComponent => ({
+  type: 'mana',
+  current: max,
+  maximum: max,
+  regeneration
+})
+
 export const createCombatStatsComponent = (overrides: Partial<Omit<CombatStatsComponent, 'type'>> = {}): CombatStatsComponent => ({
   type: 'combatStats',
   damage: 10,
   attackSpeed: 1,
   attackRange: 1.5,
+  attackWindUp: 0.3,
   accuracy: 0.9,
   criticalChance: 0.05,
   criticalMultiplier: 1.5,
   ...overrides
 })
 
-export const createFactionComponent = (faction: 'player' | 'enemy' | 'neutral'): FactionComponent => {
-  const hostile: string[] = []
-  if (faction === 'player') hostile.push('enemy')
-  if (faction === 'enemy') hostile.push('player')
-  
-  return {
-    type: 'faction',
-    faction,
-    hostile
-  }
+export const createResistanceComponent = (overrides: Partial<Omit<ResistanceComponent, 'type'>> = {}): ResistanceComponent => ({
+  type: 'resistances',
+  physical: 0,
+  fire: 0,
+  cold: 0,
+  lightning: 0,
+  chaos: 0,
+  maximum: 75,
+  ...overrides
+})
+
+export const createDefenceComponent = (overrides: Partial<Omit<DefenceComponent, 'type'>> = {}): DefenceComponent => ({
+  type: 'defence',
+  evasion: 0,
+  blockChance: 0,
+  armour: 0,
+  maxEnergyShield: 0,
+  energyShieldRecharge: 10,
+  lastDamagedAt: -Infinity,
+  ...overrides,
+  energyShield: overrides.energyShield ?? overrides.maxEnergyShield ?? 0 // Starts full
+})
+
+// Default hostilities - players and enemies fight, neutrals are left alone
+export const hostileFactionsOf = (faction: string): string[] => {
+  if (faction === 'player') return ['enemy']
+  if (faction === 'enemy') return ['player']
+  return []
 }
 
+export const createFactionComponent = (faction: 'player' | 'enemy' | 'neutral'): FactionComponent => ({
+  type: 'faction',
+  faction,
+  hostile: hostileFactionsOf(faction)
+})
+
 export const createTransformComponent = (
   position = new THREE.Vector3(0, 0, 0),
   rotation = new THREE.Euler(0, 0, 0),
@@ -102,21 +197,45 @@ export const createTransformComponent = (
   type: 'transform',
   position: position.clone(),
   rotation: rotation.clone(),
-  scale: scale.clone()
+  scale: scale.clone(),
+  previousPosition: position.clone(),
+  previousRotation: rotation.clone()
 })
 
+// Blend previous and current simulation positions for smooth rendering
+// alpha comes from ECSWorld.interpolationAlpha
+export const getInterpolatedPosition = (
+  transform: TransformComponent,
+  alpha: number,
+  target = new THREE.Vector3()
+): THREE.Vector3 => target.lerpVectors(transform.previousPosition, transform.position, alpha)
+
+// Blend yaw along the shortest arc
+export const getInterpolatedRotationY = (transform: TransformComponent, alpha: number): number => {
+  const from = transform.previousRotation.y
+  let diff = transform.rotation.y - from
+  if (diff > Math.PI) diff -= 2 * Math.PI
+  if (diff < -Math.PI) diff += 2 * Math.PI
+  return from + diff * alpha
+}
+
 export const createMeshComponent = (mesh: THREE.Mesh): MeshComponent => ({
   type: 'mesh',
   mesh,
   visible: true
 })
 
-export const createAIComponent = (aggroRange = 5, attackCooldown = 1): AIComponent => ({
+export const createAppearanceComponent = (overrides: Partial<Omit<AppearanceComponent, 'type'>> = {}): AppearanceComponent => ({
+  type: 'appearance',
+  color: '#cc0000',
+  scale: 1,
+  ...overrides
+})
+
+export const createAIComponent = (aggroRange = 5): AIComponent => ({
   type: 'ai',
   state: 'idle',
-  aggroRange,
-  attackCooldown,
-  lastAttackTime: 0
+  aggroRange
 })
 
 export const createMovementComponent = (speed = 2): MovementComponent => ({
@@ -0,0 +1,84 @@
+// Deferred structural changes for the ECS world
+// Systems queue creates/destroys/component changes while iterating queries;
+// the world applies them at a sync point (after each system update)
+import { Entity } from './ECS'
+import type { ECSWorld, EntityId, ComponentType, RegisteredComponent } from './ECS'
+
+type Command =
+  | { kind: 'create'; entity: Entity }
+  | { kind: 'destroy'; entityId: EntityId }
+  | { kind: 'addComponent'; entityId: EntityId; component: RegisteredComponent }
+  | { kind: 'removeComponent'; entityId: EntityId; componentType: ComponentType }
+
+export class CommandBuffer {
+  private commands: Command[] = []
+  private generateId: (prefix?: string) => EntityId
+
+  constructor(generateId: (prefix?: string) => EntityId) {
+    this.generateId = generateId
+  }
+
+  // Create an entity that joins the world at the next sync point.
+  // Components can be added to the returned entity straight away.
+  createEntity(id?: EntityId): Entity {
+    const entity = new Entity(id || this.generateId())
+    this.commands.push({ kind: 'create', entity })
+    return entity
+  }
+
+  // Queue an entity built elsewhere (e.g. taken from an EntityPool)
+  addEntity(entity: Entity): Entity {
+    this.commands.push({ kind: 'create', entity })
+    return entity
+  }
+
+  destroyEntity(entityId: EntityId): void {
+    this.commands.push({ kind: 'destroy', entityId })
+  }
+
+  addComponent(entityId: EntityId, component: RegisteredComponent): void {
+    this.commands.push({ kind: 'addComponent', entityId, component })
+  }
+
+  removeComponent(entityId: EntityId, componentType: ComponentType): void {
+    this.commands.push({ kind: 'removeComponent', entityId, componentType })
+  }
+
+  get size(): number {
+    return this.commands.length
+  }
+
+  // Apply queued commands in the order they were recorded.
+  // Commands queued while flushing (e.g. by lifecycle listeners) are applied too.
+  flush(world: ECSWorld): void {
+    while (this.commands.length > 0) {
+      const pending = this.commands
+      this.commands = []
+      pending.forEach(command => this.apply(world, command))
+    }
+  }
+
+  clear(): void {
+    this.commands.length = 0
+  }
+
+  private apply(world: ECSWorld, command: Command): void {
+    switch (command.kind) {
+      case 'create':
+        world.addEntity(command.entity)
+        break
+
+      case 'destroy':
+        world.removeEntity(command.entityId)
+        break
+
+      case 'addComponent':
+        world.getEntity(command.entityId)?.addComponent(command.component)
+        break
+
+      case 'removeComponent':
+        world.getEntity(command.entityId)?.removeComponent(command.componentType)
+        break
+    }
+  }
+}
@@ -0,0 +1,175 @@
+// Shared damage and healing - every system changes health through these so
+// gameplay events (damageDealt, healed, entityDied) are always published
+// and killed entities are tagged 'dead'.
+//
+// Hit resolution runs the same pipeline for every damage source:
+// invulnerable -> evasion (attacks) -> block (attacks and spells) ->
+// armour (physical) and resistances (per type) -> shock -> energy shield ->
+// health. Surviving targets may then suffer the hit's ailments.
+import type { ECSWorld, Entity, EntityId } from './ECS'
+import { DAMAGE_TYPES } from './CombatComponents'
+import type { DamageType, DamageValues } from './CombatComponents'
+import { createTag } from './Tags'
+import { ailmentMagnitude, inflictAilment } from './Ailments'
+import type { AilmentChance } from './Ailments'
+
+// Resistance limits, percent - no cap goes above the hard cap, and no
+// resistance below the floor
+export const HARD_RESISTANCE_CAP = 90
+export const MIN_RESISTANCE = -100
+
+// Avoidance caps, so no defence makes an entity untouchable
+export const MAX_EVASION = 0.95
+export const MAX_BLOCK_CHANCE = 0.75
+export const MAX_ARMOUR_REDUCTION = 0.9
+
+// attack: weapon/melee hits (evadable); spell: skills and projectiles;
+// dot: damage over time, which skips avoidance
+export type HitKind = 'attack' | 'spell' | 'dot'
+
+export interface Hit {
+  source: EntityId | null
+  kind: HitKind
+  damage: DamageValues
+  penetration?: DamageValues // Percent of the target's resistance ignored, per type
+  ailments?: AilmentChance[] // Rolled once per hit that deals damage
+  isCrit?: boolean
+}
+
+export function totalDamage(damage: DamageValues): number {
+  return DAMAGE_TYPES.reduce((total, type) => total + (damage[type] || 0), 0)
+}
+
+// Multiply every damage type (crits, falloff, ...)
+export function scaleDamage(damage: DamageValues, multiplier: number): DamageValues {
+  const scaled: DamageValues = {}
+  DAMAGE_TYPES.forEach(type => {
+    if (damage[type]) scaled[type] = damage[type] * multiplier
+  })
+  return scaled
+}
+
+// The type contributing most to a hit (for logs and the combat feed)
+export function primaryDamageType(damage: DamageValues): DamageType {
+  return DAMAGE_TYPES.reduce((best, type) => ((damage[type] || 0) > (damage[best] || 0) ? type : best), 'physical')
+}
+
+// Effective resistance of the target against one damage type, after its cap
+// and the hit's penetration (which only strips positive resistance)
+export function effectiveResistance(target: Entity, damageType: DamageType, penetration = 0): number {
+  const resistances = target.getComponent('resistances')
+  if (!resistances) return 0
+
+  const cap = Math.min(resistances.maximum, HARD_RESISTANCE_CAP)
+  const capped = Math.max(Math.min(resistances[damageType], cap), MIN_RESISTANCE)
+  return capped > 0 ? Math.max(capped - penetration, 0) : capped
+}
+
+// Fraction of a physical hit stopped by armour - big hits get through more
+// easily (armour / (armour + 5 x damage))
+export function armourReduction(armour: number, physicalDamage: number): number {
+  if (armour <= 0 || physicalDamage <= 0) return 0
+  return Math.min(armour / (armour + 5 * physicalDamage), MAX_ARMOUR_REDUCTION)
+}
+
+// Damage left per type after the target's armour and resistances
+export function mitigateDamage(target: Entity, hit: Hit): DamageValues {
+  const armour = target.getComponent('defence')?.armour || 0
+  const mitigated: DamageValues = {}
+  DAMAGE_TYPES.forEach(type => {
+    let amount = hit.damage[type] || 0
+    if (amount <= 0) return
+    if (type === 'physical') amount *= 1 - armourReduction(armour, amount)
+    const resistance = effectiveResistance(target, type, hit.penetration?.[type])
+    mitigated[type] = amount * (1 - resistance / 100)
+  })
+  return mitigated
+}
+
+export type HitResolution =
+  | { outcome: 'immune' | 'evaded' | 'blocked' }
+  | { outcome: 'hit'; breakdown: DamageValues; total: number; absorbed: number } // absorbed: taken by energy shield
+
+// Run a hit through the target's defences without applying it.
+// Avoidance rolls use the combat stream, and only when the target has a chance.
+export function resolveHit(world: ECSWorld, target: Entity, hit: Hit): HitResolution {
+  if (target.hasComponent('invulnerable')) return { outcome: 'immune' }
+
+  const defence = target.getComponent('defence')
+  if (defence && hit.kind !== 'dot') {
+    const combatRandom = world.random.stream('combat')
+    const evasion = hit.kind === 'attack' ? Math.min(defence.evasion, MAX_EVASION) : 0
+    if (evasion > 0 && combatRandom.chance(evasion)) return { outcome: 'evaded' }
+    const blockChance = Math.min(defence.blockChance, MAX_BLOCK_CHANCE)
+    if (blockChance > 0 && combatRandom.chance(blockChance)) return { outcome: 'blocked' }
+  }
+
+  const breakdown = scaleDamage(mitigateDamage(target, hit), 1 + ailmentMagnitude(target, 'shock'))
+  const total = totalDamage(breakdown)
+  const absorbed = defence ? Math.min(defence.energyShield, total) : 0
+  return { outcome: 'hit', breakdown, total, absorbed }
+}
+
+// Apply a hit to the target. Returns the damage actually taken (energy
+// shield and health together).
+export function applyDamage(world: ECSWorld, target: Entity, hit: Hit): number {
+  const health = target.getComponent('health')
+  if (!health || health.current <= 0) return 0
+
+  const resolution = resolveHit(world, target, hit)
+  if (resolution.outcome === 'evaded' || resolution.outcome === 'blocked') {
+    world.events.emit('hitAvoided', { source: hit.source, target: target.id, outcome: resolution.outcome })
+  }
+  if (resolution.outcome !== 'hit' || resolution.total <= 0) return 0
+
+  // Energy shield soaks damage first, and stops recharging while under fire
+  const defence = target.getComponent('defence')
+  if (defence) {
+    defence.energyShield -= resolution.absorbed
+    defence.lastDamagedAt = world.clock.time
+  }
+
+  const lifeDamage = Math.min(resolution.total - resolution.absorbed, health.current)
+  health.current -= lifeDamage
+  const amount = resolution.absorbed + lifeDamage
+
+  world.events.emit('damageDealt', {
+    source: hit.source,
+    target: target.id,
+    amount,
+    absorbed: resolution.absorbed,
+    damageType: primaryDamageType(resolution.breakdown),
+    breakdown: resolution.breakdown,
+    isCrit: hit.isCrit || false
+  })
+
+  if (health.current <= 0) {
+    // Tagged at the next sync point - callers may be iterating a query
+    world.commands.addComponent(target.id, createTag('dead'))
+    world.events.emit('entityDied', { entity: target.id, killer: hit.source })
+  } else {
+    rollAilments(world, target, hit)
+  }
+  return amount
+}
+
+function rollAilments(world: ECSWorld, target: Entity, hit: Hit): void {
+  hit.ailments?.forEach(({ type, chance, duration, magnitude }) => {
+    if (!world.random.stream('ailments').chance(chance)) return
+    // Burns deal a share of the hit's fire damage per second
+    const strength = type === 'burn' ? magnitude * (hit.damage.fire || 0) : magnitude
+    if (strength > 0) inflictAilment(world, target, type, strength, duration, hit.source)
+  })
+}
+
+// Restore health up to the maximum. Returns the amount actually healed.
+export function applyHealing(world: ECSWorld, source: Entity, target: Entity, amount: number): number {
+  const health = target.getComponent('health')
+  if (!health || health.current <= 0) return 0
+
+  const healed = Math.min(amount, health.maximum - health.current)
+  health.current += healed
+
+  world.events.emit('healed', { source: source.id, target: target.id, amount: healed })
+  return healed
+}
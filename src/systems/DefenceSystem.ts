@@ -0,0 +1,26 @@
+// Defence System - recharges energy shield
+// Recharge starts once an entity has gone ENERGY_SHIELD_RECHARGE_DELAY
+// seconds without taking damage (see applyDamage in Damage.ts)
+import { System, ECSWorld, Query } from './ECS'
+
+export const ENERGY_SHIELD_RECHARGE_DELAY = 2 // Seconds
+
+export class DefenceSystem extends System {
+  readonly name = 'defence'
+
+  private defenders!: Query<readonly ['defence']>
+
+  attach(world: ECSWorld): void {
+    super.attach(world)
+    this.defenders = world.query({ with: ['defence'], without: ['dead'] })
+  }
+
+  update(deltaTime: number): void {
+    const time = this.world.clock.time
+    this.defenders.forEach((_entity, [defence]) => {
+      if (defence.energyShield >= defence.maxEnergyShield) return
+      if (time - defence.lastDamagedAt < ENERGY_SHIELD_RECHARGE_DELAY) return
+      defence.energyShield = Math.min(defence.maxEnergyShield, defence.energyShield + defence.energyShieldRecharge * deltaTime)
+    })
+  }
+}
@@ -1,5 +1,16 @@
 // Entity-Component-System (ECS) Architecture
 // Inspired by Path of Exile's modular game systems
+import { EventEmitter } from './EventEmitter'
+import { CommandBuffer } from './CommandBuffer'
+import { scheduleSystems } from './Scheduler'
+import { FixedTimestep } from './FixedTimestep'
+import { SimulationClock } from './SimulationClock'
+import { RandomService } from './Random'
+import { SystemProfiler } from './Profiler'
+import { PrefabRegistry } from './Prefabs'
+import type { PrefabComponents, PrefabDefinition } from './Prefabs'
+import type { GameplayEvents } from './GameplayEvents'
+import { PREFABS } from '../data/prefabs'
 
 // Unique entity identifier
 export type EntityId = string
@@ -9,61 +20,331 @@ export interface Component {
   type: string
 }
 
+// Maps each component type literal to its interface. Component modules
+// register their components through declaration merging:
+//   declare module './ECS' {
+//     interface ComponentRegistry { health: HealthComponent }
+//   }
+// eslint-disable-next-line @typescript-eslint/no-empty-object-type
+export interface ComponentRegistry {}
+
+// Any registered component type literal ('health', 'transform', ...)
+export type ComponentType = keyof ComponentRegistry
+
+// Union of every registered component interface
+export type RegisteredComponent = ComponentRegistry[ComponentType]
+
+// Component interfaces for a list of types, e.g. ['health', 'ai'] -> [HealthComponent, AIComponent]
+export type ComponentTuple<T extends readonly ComponentType[]> = {
+  [I in keyof T]: ComponentRegistry[T[I]]
+}
+
+// Receives structural change notifications from an entity (implemented by ECSWorld)
+export interface EntityObserver {
+  onComponentAdded(entity: Entity, component: RegisteredComponent): void
+  onComponentRemoved(entity: Entity, component: RegisteredComponent): void
+}
+
+// Lifecycle events published by ECSWorld (see ECSWorld.on)
+export interface WorldLifecycleEvents {
+  entityCreated: { entity: Entity }
+  entityRemoved: { entity: Entity } // Emitted before the entity's components are cleared
+  componentAdded: { entity: Entity; component: RegisteredComponent }
+  componentRemoved: { entity: Entity; component: RegisteredComponent }
+}
+
+// Thrown when an entity is registered under an id the world already uses
+export class EntityError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'EntityError'
+  }
+}
+
 // Entity class - just a container for components
 export class Entity {
   public id: EntityId
-  private components = new Map<string, Component>()
+  public sequence = 0 // Order the entity joined its world - queries iterate in this order
+  private components = new Map<ComponentType, RegisteredComponent>()
+  private observer: EntityObserver | null = null
+
+  // Ids are generated by ECSWorld.generateId so they are reproducible from the world seed
+  constructor(id: EntityId) {
+    this.id = id
+  }
 
-  constructor(id?: EntityId) {
-    this.id = id || `entity_${Math.random().toString(36).substr(2, 9)}`
+  // Attach the observer that keeps world queries in sync with this entity
+  setObserver(observer: EntityObserver | null): void {
+    this.observer = observer
   }
 
   // Add a component to this entity
-  addComponent<T extends Component>(component: T): this {
+  addComponent(component: RegisteredComponent): this {
+    const isNewType = !this.components.has(component.type)
     this.components.set(component.type, component)
+    if (isNewType) {
+      this.observer?.onComponentAdded(this, component)
+    }
     return this
   }
 
   // Get a component by type
-  getComponent<T extends Component>(type: string): T | undefined {
-    return this.components.get(type) as T | undefined
+  getComponent<K extends ComponentType>(type: K): ComponentRegistry[K] | undefined {
+    return this.components.get(type) as ComponentRegistry[K] | undefined
   }
 
   // Check if entity has a component
-  hasComponent(type: string): boolean {
+  hasComponent(type: ComponentType): boolean {
     return this.components.has(type)
   }
 
   // Remove a component
-  removeComponent(type: string): boolean {
-    return this.components.delete(type)
+  removeComponent(type: ComponentType): boolean {
+    const component = this.components.get(type)
+    if (!component) return false
+
+    this.components.delete(type)
+    this.observer?.onComponentRemoved(this, component)
+    return true
   }
 
   // Get all components
-  getAllComponents(): Component[] {
+  getAllComponents(): RegisteredComponent[] {
     return Array.from(this.components.values())
   }
 
-  // Destroy entity (remove all components)
+  // Remove all components. The entity stays registered with its world -
+  // use ECSWorld.removeEntity to actually remove it.
   destroy(): void {
-    this.components.clear()
+    Array.from(this.components.keys()).forEach(type => this.removeComponent(type))
   }
 }
 
+// Describes which entities a query matches
+export interface QueryDescriptor<W extends readonly ComponentType[] = readonly ComponentType[]> {
+  with: W                              // Entity must have all of these components
+  without?: readonly ComponentType[]   // Entity must have none of these components
+  anyOf?: readonly ComponentType[]     // Entity must have at least one of these (ignored if empty)
+}
+
+// Cached query - membership is maintained incrementally by the world
+// as components are added and removed, so systems never re-filter.
+// Entities are kept sorted by Entity.sequence, so iteration order depends
+// only on which entities match - never on the order changes happened in.
+export class Query<W extends readonly ComponentType[] = readonly ComponentType[]> {
+  readonly with: W
+  readonly without: readonly ComponentType[]
+  readonly anyOf: readonly ComponentType[]
+  readonly entities: Entity[] = []
+  private members = new Set<EntityId>()
+
+  constructor(descriptor: QueryDescriptor<W>) {
+    this.with = descriptor.with
+    this.without = [...(descriptor.without || [])]
+    this.anyOf = [...(descriptor.anyOf || [])]
+  }
+
+  // Build a stable cache key so equal descriptors share one query. `with`
+  // keeps its order - it decides the order of the component tuple.
+  static keyOf(descriptor: QueryDescriptor): string {
+    const include = descriptor.with.join(',')
+    const exclude = [...(descriptor.without || [])].sort().join(',')
+    const any = [...(descriptor.anyOf || [])].sort().join(',')
+    return `${include}|${exclude}|${any}`
+  }
+
+  // Component types whose presence can change this query's result
+  get componentTypes(): ComponentType[] {
+    return Array.from(new Set([...this.with, ...this.without, ...this.anyOf]))
+  }
+
+  // Components of a matching entity, in the order listed in `with`
+  componentsOf(entity: Entity): ComponentTuple<W> {
+    // Members always carry every `with` component
+    const components: ComponentTuple<readonly ComponentType[]> = this.with.map(type => entity.getComponent(type)!)
+    return components as ComponentTuple<W>
+  }
+
+  // Iterate matching entities together with their typed components
+  forEach(callback: (entity: Entity, components: ComponentTuple<W>) => void): void {
+    this.entities.forEach(entity => callback(entity, this.componentsOf(entity)))
+  }
+
+  matches(entity: Entity): boolean {
+    return this.with.every(type => entity.hasComponent(type)) &&
+      !this.without.some(type => entity.hasComponent(type)) &&
+      (this.anyOf.length === 0 || this.anyOf.some(type => entity.hasComponent(type)))
+  }
+
+  has(entity: Entity): boolean {
+    return this.members.has(entity.id)
+  }
+
+  get size(): number {
+    return this.entities.length
+  }
+
+  // Re-evaluate a single entity after a structural change
+  refresh(entity: Entity): void {
+    const isMatch = this.matches(entity)
+    const isMember = this.members.has(entity.id)
+    if (isMatch && !isMember) {
+      this.insert(entity)
+    } else if (!isMatch && isMember) {
+      this.remove(entity)
+    }
+  }
+
+  remove(entity: Entity): void {
+    if (!this.members.delete(entity.id)) return
+    this.entities.splice(this.position(entity.sequence), 1)
+  }
+
+  clear(): void {
+    this.entities.length = 0
+    this.members.clear()
+  }
+
+  // Re-sort after the world renumbers its entities (see ECSWorld.reorderEntities)
+  sort(): void {
+    this.entities.sort((a, b) => a.sequence - b.sequence)
+  }
+
+  private insert(entity: Entity): void {
+    this.members.add(entity.id)
+    this.entities.splice(this.position(entity.sequence), 0, entity)
+  }
+
+  // Index of the first member whose sequence is not below the given one
+  private position(sequence: number): number {
+    let low = 0
+    let high = this.entities.length
+    while (low < high) {
+      const middle = (low + high) >> 1
+      if (this.entities[middle].sequence < sequence) low = middle + 1
+      else high = middle
+    }
+    return low
+  }
+}
+
+// Update phases, run in this order every frame (see Scheduler.ts)
+export type SystemPhase = 'input' | 'simulation' | 'physics' | 'postPhysics' | 'presentation'
+
 // Base system interface
 export abstract class System {
-  abstract update(entities: Entity[], deltaTime: number): void
+  // Unique name, used for ordering constraints and lookups
+  abstract readonly name: string
+
+  // Scheduling - subclasses override these to declare where they run
+  readonly phase: SystemPhase = 'simulation'
+  readonly priority: number = 0          // Lower runs first within a phase
+  readonly runAfter: string[] = []       // Names of systems that must run before this one
+  readonly runBefore: string[] = []      // Names of systems that must run after this one
+
+  // World this system belongs to (set when added via ECSWorld.addSystem)
+  protected world!: ECSWorld
+
+  // Called when the system is added to a world - override to create queries
+  attach(world: ECSWorld): void {
+    this.world = world
+  }
+
+  // Optional: called when the system is removed - release world subscriptions here
+  detach?(): void
+
+  abstract update(deltaTime: number): void
+
+  // Optional: system-internal state to include in world snapshots (must be JSON-safe)
+  saveState?(): unknown
+
+  // Optional: restore state produced by saveState
+  loadState?(state: unknown): void
+}
+
+export interface ECSWorldOptions {
+  seed?: number // Seed for all simulation randomness (random if omitted)
+  prefabs?: Record<string, PrefabDefinition> // Entity blueprints (defaults to src/data/prefabs.ts)
 }
 
 // ECS World - manages all entities and systems
-export class ECSWorld {
+export class ECSWorld implements EntityObserver {
   private entities = new Map<EntityId, Entity>()
+  private nextSequence = 0
   private systems: System[] = []
+  private queries = new Map<string, Query<readonly ComponentType[]>>()
+  private queriesByType = new Map<ComponentType, Query<readonly ComponentType[]>[]>()
+  private lifecycle = new EventEmitter<WorldLifecycleEvents>()
+
+  // Structural changes requested during system updates are queued here
+  // and applied after each system (and before the first one each frame)
+  readonly commands = new CommandBuffer(prefix => this.generateId(prefix))
+
+  // Fixed simulation step - see advance()
+  readonly timestep = new FixedTimestep()
+
+  // Gameplay time - systems read clock.time instead of Date.now()
+  readonly clock = new SimulationClock()
+
+  // Seeded random streams - systems use random.stream('combat') etc. instead of Math.random()
+  readonly random: RandomService
+
+  // Entity blueprints available to spawn()
+  readonly prefabs: PrefabRegistry
+
+  // Gameplay facts (damage, deaths, skill casts, aggro) published by systems
+  readonly events = new EventEmitter<GameplayEvents>()
+
+  // Per-system update timings (enable profiler.enabled to collect)
+  readonly profiler = new SystemProfiler()
+
+  constructor(options: ECSWorldOptions = {}) {
+    this.random = new RandomService(options.seed)
+    this.prefabs = new PrefabRegistry(options.prefabs || PREFABS)
+  }
+
+  // Subscribe to entity/component lifecycle events - returns an unsubscribe function
+  on<K extends keyof WorldLifecycleEvents>(
+    event: K,
+    listener: (payload: WorldLifecycleEvents[K]) => void
+  ): () => void {
+    return this.lifecycle.on(event, listener)
+  }
 
   // Entity management
   createEntity(id?: EntityId): Entity {
-    const entity = new Entity(id)
+    return this.addEntity(new Entity(id || this.generateId()))
+  }
+
+  // Create an entity from a prefab, e.g. spawn('monster.heavy', { transform: { position: [2, 0.5, 4] } })
+  spawn(prefab: string, overrides?: PrefabComponents, id?: EntityId): Entity {
+    return this.prefabs.instantiate(this, prefab, overrides, id)
+  }
+
+  // Reproducible unique id from the 'ids' random stream
+  generateId(prefix = 'entity'): EntityId {
+    const ids = this.random.stream('ids')
+    let id: EntityId
+    do {
+      id = `${prefix}_${Math.floor(ids.next() * 36 ** 9).toString(36).padStart(9, '0')}`
+    } while (this.entities.has(id))
+    return id
+  }
+
+  // Register an entity built outside the world (e.g. by the command buffer).
+  // Throws an EntityError if the id is already taken.
+  addEntity(entity: Entity): Entity {
+    if (this.entities.has(entity.id)) {
+      throw new EntityError(`Entity ${entity.id} already exists`)
+    }
+    entity.sequence = this.nextSequence++
     this.entities.set(entity.id, entity)
+    entity.setObserver(this)
+    this.refreshQueries(entity, Array.from(this.queries.values()))
+    this.lifecycle.emit('entityCreated', { entity })
+    entity.getAllComponents().forEach(component => {
+      this.lifecycle.emit('componentAdded', { entity, component })
+    })
     return entity
   }
 
@@ -73,49 +354,145 @@ export class ECSWorld {
 
   removeEntity(id: EntityId): boolean {
     const entity = this.entities.get(id)
-    if (entity) {
-      entity.destroy()
-      return this.entities.delete(id)
-    }
-    return false
+    if (!entity) return false
+
+    // Notify while components are still readable, then tear down silently
+    this.lifecycle.emit('entityRemoved', { entity })
+    entity.setObserver(null)
+    entity.destroy()
+    this.queries.forEach(query => query.remove(entity))
+    return this.entities.delete(id)
   }
 
   getAllEntities(): Entity[] {
     return Array.from(this.entities.values())
   }
 
+  // Renumber entities so the listed ids come first, in the given order, and
+  // the rest follow in their current order. Queries and getAllEntities()
+  // iterate in the new order (used to match a restored snapshot).
+  reorderEntities(ids: readonly EntityId[]): void {
+    const listed = ids.map(id => this.entities.get(id)).filter((entity): entity is Entity => !!entity)
+    const ordered = new Set([...listed, ...this.entities.values()])
+    this.entities.clear()
+    ordered.forEach(entity => {
+      entity.sequence = this.nextSequence++
+      this.entities.set(entity.id, entity)
+    })
+    this.queries.forEach(query => query.sort())
+  }
+
+  // Get (or create) a cached query for the given component sets
+  query<const W extends readonly ComponentType[]>(descriptor: QueryDescriptor<W>): Query<W> {
+    const key = Query.keyOf(descriptor)
+    const existing = this.queries.get(key)
+    if (existing) return existing as Query<W> // Same key, so the same `with` list
+
+    const query = new Query(descriptor)
+    this.queries.set(key, query)
+    query.componentTypes.forEach(type => {
+      const list = this.queriesByType.get(type) || []
+      list.push(query)
+      this.queriesByType.set(type, list)
+    })
+
+    // Populate from entities that already exist
+    this.entities.forEach(entity => query.refresh(entity))
+    return query
+  }
+
   // Get entities that have specific components
-  getEntitiesWithComponents(...componentTypes: string[]): Entity[] {
-    return this.getAllEntities().filter(entity =>
-      componentTypes.every(type => entity.hasComponent(type))
-    )
+  getEntitiesWithComponents(...componentTypes: ComponentType[]): Entity[] {
+    return [...this.query({ with: componentTypes }).entities]
+  }
+
+  // EntityObserver - keep queries in sync with structural changes
+  onComponentAdded(entity: Entity, component: RegisteredComponent): void {
+    this.refreshQueries(entity, this.queriesByType.get(component.type))
+    this.lifecycle.emit('componentAdded', { entity, component })
+  }
+
+  onComponentRemoved(entity: Entity, component: RegisteredComponent): void {
+    this.refreshQueries(entity, this.queriesByType.get(component.type))
+    this.lifecycle.emit('componentRemoved', { entity, component })
   }
 
-  // System management
+  // System management - throws a SchedulingError if the system's
+  // ordering constraints conflict with the ones already registered
   addSystem(system: System): void {
-    this.systems.push(system)
+    this.systems = scheduleSystems([...this.systems, system])
+    system.attach(this)
   }
 
   removeSystem(system: System): boolean {
     const index = this.systems.indexOf(system)
     if (index !== -1) {
       this.systems.splice(index, 1)
+      system.detach?.()
       return true
     }
     return false
   }
 
-  // Update all systems
+  getSystem<T extends System>(name: string): T | undefined {
+    return this.systems.find(system => system.name === name) as T | undefined
+  }
+
+  // Systems in the order they run
+  getSystems(): readonly System[] {
+    return this.systems
+  }
+
+  // Advance by a render frame's delta, running zero or more fixed-size
+  // simulation steps. Returns the number of steps run.
+  // Pausing, time scaling and single-step requests are applied via the clock.
+  advance(frameDelta: number): number {
+    const simulationDelta = this.clock.scaleFrameDelta(frameDelta)
+    let steps = this.timestep.advance(simulationDelta, stepSize => this.update(stepSize))
+
+    while (this.clock.consumeStep()) {
+      this.update(this.timestep.stepSize)
+      steps++
+    }
+    return steps
+  }
+
+  // Fraction (0-1) of a step the render frame is past the latest simulation
+  // state - renderers blend previous and current transforms with it
+  get interpolationAlpha(): number {
+    return this.timestep.interpolationAlpha
+  }
+
+  // Run a single simulation step: update all systems, applying queued
+  // structural changes between them
   update(deltaTime: number): void {
-    const entities = this.getAllEntities()
+    this.clock.advance(deltaTime)
+    this.commands.flush(this)
     this.systems.forEach(system => {
-      system.update(entities, deltaTime)
+      if (this.profiler.enabled) {
+        const start = performance.now()
+        system.update(deltaTime)
+        this.profiler.record(system.name, performance.now() - start)
+      } else {
+        system.update(deltaTime)
+      }
+      this.commands.flush(this)
     })
   }
 
-  // Clear everything
+  // Clear everything (lifecycle and gameplay listeners stay subscribed)
   clear(): void {
-    this.entities.clear()
+    this.commands.clear()
+    this.timestep.reset()
+    this.clock.reset()
+    Array.from(this.entities.keys()).forEach(id => this.removeEntity(id))
+    this.queries.forEach(query => query.clear())
+    this.systems.forEach(system => system.detach?.())
     this.systems.length = 0
   }
+
+  private refreshQueries(entity: Entity, queries: Query[] | undefined): void {
+    if (!queries || !this.entities.has(entity.id)) return
+    queries.forEach(query => query.refresh(entity))
+  }
 }
@@ -0,0 +1,91 @@
+// Entity Pool - recycles short-lived entities (projectiles, spell effects)
+// A pooled entity keeps its Entity object and component objects between
+// uses: when it leaves the world its components are put aside, and the next
+// acquire() re-attaches them under a fresh id. Callers re-initialise the
+// component fields in place instead of allocating new ones, which avoids
+// garbage-collection hitches when many projectiles are in flight.
+import { Entity } from './ECS'
+import type { ECSWorld, EntityId, ComponentType, RegisteredComponent } from './ECS'
+
+export interface EntityPoolOptions {
+  prefix: string                   // Default id prefix, e.g. 'projectile'
+  size: number                     // Entities built up front and kept for reuse
+  build: (entity: Entity) => void  // Adds the pooled components to a new entity
+}
+
+interface PooledEntity {
+  entity: Entity
+  components: RegisteredComponent[]
+}
+
+export class EntityPool {
+  private world: ECSWorld
+  private options: EntityPoolOptions
+  private free: PooledEntity[] = []
+  private active = new Map<EntityId, Entity>()
+  private pooledTypes = new Set<ComponentType>()
+  private unsubscribe: () => void
+
+  constructor(world: ECSWorld, options: EntityPoolOptions) {
+    this.world = world
+    this.options = options
+
+    for (let i = 0; i < options.size; i++) {
+      this.free.push(this.build())
+    }
+
+    // Reclaim pooled entities however they leave the world (release,
+    // snapshot restore, world.clear) - components are still readable here
+    this.unsubscribe = world.on('entityRemoved', ({ entity }) => {
+      if (this.active.get(entity.id) !== entity) return
+      this.active.delete(entity.id)
+      if (this.free.length >= this.options.size) return // Pool is full - let it go
+
+      // Only keep the pooled components - renderers may have added their own
+      const components = entity.getAllComponents().filter(component => this.pooledTypes.has(component.type))
+      this.free.push({ entity, components })
+    })
+  }
+
+  // Take an entity from the pool (or build one if it is empty). It joins the
+  // world at the next sync point, still carrying the component objects from
+  // its previous use - re-initialise them before it runs.
+  acquire(idPrefix = this.options.prefix): Entity {
+    const { entity, components } = this.free.pop() || this.build()
+
+    // Ids still come from the world so they stay reproducible and unique
+    entity.id = this.world.generateId(idPrefix)
+    components.forEach(component => entity.addComponent(component))
+
+    this.active.set(entity.id, entity)
+    return this.world.commands.addEntity(entity)
+  }
+
+  // Return an entity to the pool - it leaves the world at the next sync point
+  release(entity: Entity): void {
+    this.world.commands.destroyEntity(entity.id)
+  }
+
+  get available(): number {
+    return this.free.length
+  }
+
+  get inUse(): number {
+    return this.active.size
+  }
+
+  // Stop listening to the world - call when the owning system is detached
+  dispose(): void {
+    this.unsubscribe()
+    this.free = []
+    this.active.clear()
+  }
+
+  private build(): PooledEntity {
+    const entity = new Entity(this.options.prefix)
+    this.options.build(entity)
+    const components = entity.getAllComponents()
+    components.forEach(component => this.pooledTypes.add(component.type))
+    return { entity, components }
+  }
+}
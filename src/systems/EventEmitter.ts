@@ -0,0 +1,24 @@
+// Small typed event emitter used by the ECS world
+// Events is a map of event name -> payload type
+
+export type Listener<T> = (payload: T) => void
+
+export class EventEmitter<Events extends object> {
+  private listeners: { [K in keyof Events]?: Set<Listener<Events[K]>> } = {}
+
+  // Subscribe to an event - returns an unsubscribe function
+  on<K extends keyof Events>(event: K, listener: Listener<Events[K]>): () => void {
+    const set = this.listeners[event] || new Set<Listener<Events[K]>>()
+    set.add(listener)
+    this.listeners[event] = set
+    return () => this.off(event, listener)
+  }
+
+  off<K extends keyof Events>(event: K, listener: Listener<Events[K]>): void {
+    this.listeners[event]?.delete(listener)
+  }
+
+  emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    this.listeners[event]?.forEach(listener => listener(payload))
+  }
+}
@@ -0,0 +1,62 @@
+// Accumulator-based fixed timestep
+// Render frames add their (variable) delta to an accumulator, which is drained
+// in constant-size simulation steps so results don't depend on refresh rate
+
+export interface FixedTimestepOptions {
+  stepSize: number          // Seconds of simulation per step
+  maxStepsPerFrame: number  // Clamp so one long frame can't trigger a spiral of catch-up steps
+}
+
+export const DEFAULT_TIMESTEP: FixedTimestepOptions = {
+  stepSize: 1 / 60,
+  maxStepsPerFrame: 5
+}
+
+export class FixedTimestep {
+  stepSize: number
+  maxStepsPerFrame: number
+  private accumulator = 0
+  private alpha = 0
+
+  constructor(options: Partial<FixedTimestepOptions> = {}) {
+    const { stepSize, maxStepsPerFrame } = { ...DEFAULT_TIMESTEP, ...options }
+    this.stepSize = stepSize
+    this.maxStepsPerFrame = maxStepsPerFrame
+  }
+
+  // Add a frame's elapsed time and run as many fixed steps as fit.
+  // Returns the number of steps that were run.
+  advance(frameDelta: number, step: (stepSize: number) => void): number {
+    this.accumulator += Math.max(0, frameDelta)
+
+    let steps = 0
+    while (this.accumulator >= this.stepSize && steps < this.maxStepsPerFrame) {
+      step(this.stepSize)
+      this.accumulator -= this.stepSize
+      steps++
+    }
+
+    // Hit the clamp - drop the backlog instead of carrying it into the next frame
+    if (steps === this.maxStepsPerFrame && this.accumulator >= this.stepSize) {
+      this.accumulator = this.accumulator % this.stepSize
+    }
+
+    this.alpha = this.accumulator / this.stepSize
+    return steps
+  }
+
+  // How far (0-1) the render frame is between the last two simulation steps
+  get interpolationAlpha(): number {
+    return this.alpha
+  }
+
+  // Adopt the interpolation state of a simulation stepped elsewhere (worker mode)
+  setInterpolationAlpha(alpha: number): void {
+    this.alpha = alpha
+  }
+
+  reset(): void {
+    this.accumulator = 0
+    this.alpha = 0
+  }
+}
@@ -0,0 +1,86 @@
+// Gameplay Events - typed facts published by systems on ECSWorld.events
+// UI, audio and quest code subscribe to these instead of polling health
+// or parsing console output. Payloads carry entity ids, not live entities.
+import * as THREE from 'three'
+import type { ECSWorld, EntityId } from './ECS'
+import type { DamageType, DamageValues } from './CombatComponents'
+import type { AilmentType } from './Ailments'
+import type { CastFailure } from './SkillSystem'
+import { logger } from '../utils/Logger'
+
+export interface GameplayEvents {
+  damageDealt: {
+    source: EntityId | null // null for damage without an attacker
+    target: EntityId
+    amount: number // Energy shield and health lost together
+    absorbed: number // Part of amount taken by energy shield
+    damageType: DamageType // Largest type in the breakdown
+    breakdown: DamageValues // Damage per type after resistances
+    isCrit: boolean
+  }
+  attackStarted: { source: EntityId; target: EntityId; windUp: number } // windUp: seconds until the hit frame
+  attackMissed: { source: EntityId; target: EntityId }
+  hitAvoided: { source: EntityId | null; target: EntityId; outcome: 'evaded' | 'blocked' }
+  healed: { source: EntityId; target: EntityId; amount: number }
+  entityDied: { entity: EntityId; killer: EntityId | null }
+  skillCast: { caster: EntityId; skillId: string; targetPosition: THREE.Vector3 }
+  skillFailed: { caster: EntityId; skillId: string; reason: CastFailure }
+  aggroChanged: { entity: EntityId; target: EntityId | null } // target null = lost aggro
+  ailmentApplied: { entity: EntityId; source: EntityId | null; ailment: AilmentType; duration: number }
+}
+
+// Every event type, e.g. for forwarding all events out of the simulation worker
+// (the Record keeps this list in step with the interface)
+const EVENT_TYPES: Record<keyof GameplayEvents, true> = {
+  damageDealt: true,
+  attackStarted: true,
+  attackMissed: true,
+  hitAvoided: true,
+  healed: true,
+  entityDied: true,
+  skillCast: true,
+  skillFailed: true,
+  aggroChanged: true,
+  ailmentApplied: true
+}
+export const GAMEPLAY_EVENT_TYPES = Object.keys(EVENT_TYPES) as Array<keyof GameplayEvents>
+
+const AILMENT_ICONS: Record<AilmentType, string> = { burn: '🔥', chill: '🥶', freeze: '🧊', shock: '⚡' }
+
+// Development combat log - mirrors gameplay events to the logger.
+// Returns an unsubscribe function.
+export function logGameplayEvents(world: ECSWorld): () => void {
+  const unsubscribers = [
+    world.events.on('damageDealt', ({ source, target, amount, damageType, isCrit }) => {
+      logger.log('combat', 'info', `${isCrit ? '💥 Critical! ' : ''}${source || 'Something'} hits ${target} for ${Math.round(amount)} ${damageType} damage`)
+    }),
+    world.events.on('attackStarted', ({ source, target, windUp }) => {
+      logger.log('combat', 'debug', `🗡️ ${source} swings at ${target} (hits in ${windUp.toFixed(2)}s)`)
+    }),
+    world.events.on('attackMissed', ({ source, target }) => {
+      logger.log('combat', 'info', `💨 ${source} missed ${target}`)
+    }),
+    world.events.on('hitAvoided', ({ source, target, outcome }) => {
+      logger.log('combat', 'info', `${outcome === 'blocked' ? '🛡️' : '💨'} ${target} ${outcome} ${source || 'a hit'}`)
+    }),
+    world.events.on('healed', ({ target, amount }) => {
+      logger.log('combat', 'info', `💚 ${target} healed for ${amount} HP`)
+    }),
+    world.events.on('entityDied', ({ entity, killer }) => {
+      logger.log('combat', 'info', `💀 ${entity} died${killer ? ` (killed by ${killer})` : ''}`)
+    }),
+    world.events.on('skillCast', ({ caster, skillId }) => {
+      logger.log('skills', 'info', `✨ ${caster} casts ${skillId}`)
+    }),
+    world.events.on('skillFailed', ({ caster, skillId, reason }) => {
+      logger.log('skills', 'debug', `🚫 ${caster} failed to cast ${skillId}: ${reason}`)
+    }),
+    world.events.on('aggroChanged', ({ entity, target }) => {
+      logger.log('ai', 'info', target ? `😡 ${entity} is now hunting ${target}` : `😴 ${entity} lost interest`)
+    }),
+    world.events.on('ailmentApplied', ({ entity, ailment, duration }) => {
+      logger.log('combat', 'info', `${AILMENT_ICONS[ailment]} ${entity} suffers ${ailment} for ${duration}s`)
+    })
+  ]
+  return () => unsubscribers.forEach(unsubscribe => unsubscribe())
+}
@@ -0,0 +1,199 @@
+// Headless Runner - runs the ECS simulation without React, a canvas or WebXR
+// Builds a world from a scenario description (seed, prefab spawns, player
+// target), ticks it in fixed steps and exposes the resulting state, so
+// combat can be exercised and asserted on from plain Node scripts/tests.
+// Input recordings made in the browser replay here too (see InputSystem.ts).
+import { ECSWorld } from './ECS'
+import type { Entity, EntityId, System } from './ECS'
+import { CORE_SYSTEMS, connectCoreSystems, setPlayerEntity } from './SystemManager'
+import { createSnapshot } from './Snapshot'
+import type { WorldSnapshot } from './Snapshot'
+import type { PrefabComponents, PrefabDefinition } from './Prefabs'
+import type { PlayerCombatSystem } from './PlayerCombatSystem'
+import { RecordingError } from './InputSystem'
+import type { InputSystem, InputCommand, InputRecording } from './InputSystem'
+import { PREFABS } from '../data/prefabs'
+
+export interface ScenarioEntity {
+  prefab: string
+  id?: EntityId
+  overrides?: PrefabComponents
+}
+
+export interface Scenario {
+  name?: string
+  seed?: number
+  prefabs?: Record<string, PrefabDefinition> // Extra/replacement prefabs on top of src/data/prefabs.ts
+  entities: ScenarioEntity[]
+  playerId?: EntityId                         // Defaults to 'player_entity'
+  target?: EntityId                           // Initial player attack target
+  systems?: Array<() => System>               // Defaults to the core gameplay systems
+  expect?: ScenarioExpectation                // Checked by `npm run scenarios`
+}
+
+// Player input queued at a simulated time (seconds from the start of the run)
+export interface TimedInput {
+  at: number
+  command: InputCommand
+}
+
+// Inclusive [min, max]
+export type ValueRange = [number, number]
+
+// What running a scenario should lead to
+export interface ScenarioExpectation {
+  seconds: number                                // Simulated time to run before checking
+  inputs?: TimedInput[]                          // Player input during the run
+  entities: Record<EntityId, EntityExpectation>
+}
+
+export interface EntityExpectation {
+  dead?: boolean // Dead entities may also have been removed from the world
+  health?: ValueRange
+  mana?: ValueRange
+}
+
+// Plain summary of one entity, convenient for assertions
+export interface EntityState {
+  id: EntityId
+  health?: { current: number; maximum: number }
+  position?: [number, number, number]
+  faction?: string
+  aiState?: string
+}
+
+export interface SimulationState {
+  time: number
+  tick: number
+  entities: EntityState[]
+}
+
+export const DEFAULT_PLAYER_ID = 'player_entity'
+
+export class HeadlessRunner {
+  readonly world: ECSWorld
+  readonly playerId: EntityId
+
+  constructor(scenario: Scenario) {
+    this.world = new ECSWorld({
+      seed: scenario.seed,
+      prefabs: { ...PREFABS, ...scenario.prefabs }
+    })
+    this.playerId = scenario.playerId || DEFAULT_PLAYER_ID
+
+    const systems = scenario.systems || CORE_SYSTEMS
+    systems.forEach(createSystem => this.world.addSystem(createSystem()))
+    connectCoreSystems(this.world)
+
+    scenario.entities.forEach(({ prefab, id, overrides }) => this.world.spawn(prefab, overrides, id))
+
+    setPlayerEntity(this.world, this.playerId)
+    if (scenario.target) {
+      this.world.getSystem<PlayerCombatSystem>('playerCombat')?.setTarget(scenario.target)
+    }
+  }
+
+  // Queue player input for the next step, as the UI would
+  input(command: InputCommand): this {
+    this.world.getSystem<InputSystem>('input')?.enqueue(command)
+    return this
+  }
+
+  // Replay a recording from its start snapshot to its last recorded tick
+  replay(recording: InputRecording): this {
+    const input = this.world.getSystem<InputSystem>('input')
+    if (!input) {
+      throw new RecordingError('Replaying a recording requires the input system')
+    }
+    input.startReplay(recording)
+    return this.step(recording.endTick - recording.startTick)
+  }
+
+  // Run a number of fixed simulation steps
+  step(count = 1): this {
+    for (let i = 0; i < count; i++) {
+      this.world.update(this.world.timestep.stepSize)
+    }
+    return this
+  }
+
+  // Run whole steps covering the given simulated seconds
+  runFor(seconds: number): this {
+    return this.step(Math.round(seconds / this.world.timestep.stepSize))
+  }
+
+  // Run for the given simulated seconds, queuing each input at its time
+  play(inputs: readonly TimedInput[], seconds: number): this {
+    const stepSize = this.world.timestep.stepSize
+    const steps = Math.round(seconds / stepSize)
+    for (let i = 0; i < steps; i++) {
+      inputs.forEach(({ at, command }) => {
+        if (Math.round(at / stepSize) === i) this.input(command)
+      })
+      this.step()
+    }
+    return this
+  }
+
+  // Step until the predicate holds or maxSeconds of simulated time pass.
+  // Returns whether the predicate was met.
+  runUntil(predicate: (runner: HeadlessRunner) => boolean, maxSeconds = 60): boolean {
+    const maxSteps = Math.round(maxSeconds / this.world.timestep.stepSize)
+    for (let i = 0; i < maxSteps; i++) {
+      if (predicate(this)) return true
+      this.step()
+    }
+    return predicate(this)
+  }
+
+  getEntity(id: EntityId): Entity | undefined {
+    return this.world.getEntity(id)
+  }
+
+  getHealth(id: EntityId): number | undefined {
+    return this.world.getEntity(id)?.getComponent('health')?.current
+  }
+
+  isAlive(id: EntityId): boolean {
+    const health = this.getHealth(id)
+    return health !== undefined && health > 0
+  }
+
+  getState(): SimulationState {
+    return {
+      time: this.world.clock.time,
+      tick: this.world.clock.tick,
+      entities: this.world.getAllEntities().map(entity => describeEntity(entity))
+    }
+  }
+
+  // Full world snapshot (see Snapshot.ts), e.g. to compare two runs
+  snapshot(): WorldSnapshot {
+    return createSnapshot(this.world)
+  }
+}
+
+// Reproduce a recorded session in a fresh world and return the end state
+export function replayRecording(recording: InputRecording): SimulationState {
+  return new HeadlessRunner({ seed: recording.snapshot.seed, entities: [] }).replay(recording).getState()
+}
+
+// Build a scenario, run it for the given simulated time and return the end state
+export function runScenario(scenario: Scenario, seconds: number): SimulationState {
+  return new HeadlessRunner(scenario).runFor(seconds).getState()
+}
+
+function describeEntity(entity: Entity): EntityState {
+  const health = entity.getComponent('health')
+  const transform = entity.getComponent('transform')
+  const faction = entity.getComponent('faction')
+  const ai = entity.getComponent('ai')
+
+  return {
+    id: entity.id,
+    health: health && { current: health.current, maximum: health.maximum },
+    position: transform && [transform.position.x, transform.position.y, transform.position.z],
+    faction: faction?.faction,
+    aiState: ai?.state
+  }
+}
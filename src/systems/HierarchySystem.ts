@@ -0,0 +1,151 @@
+// Transform Hierarchy - attach entities to a parent entity
+// A child keeps its offset from the parent in a 'parent' component (local
+// space); the hierarchy system writes the resulting world-space values into
+// the child's regular transform every step, so every other system keeps
+// working in world space. Used for mounted effects, auras and orbiting skills.
+import * as THREE from 'three'
+import { System, ECSWorld, Query } from './ECS'
+import type { Component, Entity, EntityId, SystemPhase } from './ECS'
+
+// Scratch objects reused every step
+const parentMatrix = new THREE.Matrix4()
+const localMatrix = new THREE.Matrix4()
+const quaternion = new THREE.Quaternion()
+
+export interface ParentComponent extends Component {
+  type: 'parent'
+  parent: EntityId
+  localPosition: THREE.Vector3
+  localRotation: THREE.Euler
+  localScale: THREE.Vector3
+  onParentRemoved: 'destroy' | 'detach' // Destroy the child with its parent, or leave it in place
+}
+
+// Register the hierarchy component with the ECS component registry
+declare module './ECS' {
+  interface ComponentRegistry {
+    parent: ParentComponent
+  }
+}
+
+export const createParentComponent = (
+  parent: EntityId,
+  localPosition = new THREE.Vector3(0, 0, 0),
+  localRotation = new THREE.Euler(0, 0, 0),
+  onParentRemoved: 'destroy' | 'detach' = 'destroy',
+  localScale = new THREE.Vector3(1, 1, 1)
+): ParentComponent => ({
+  type: 'parent',
+  parent,
+  localPosition: localPosition.clone(),
+  localRotation: localRotation.clone(),
+  localScale: localScale.clone(),
+  onParentRemoved
+})
+
+// Attach a child to a parent, keeping the child where it currently is in the world
+export function attachToParent(
+  world: ECSWorld,
+  child: Entity,
+  parentId: EntityId,
+  onParentRemoved: 'destroy' | 'detach' = 'destroy'
+): void {
+  const parentTransform = world.getEntity(parentId)?.getComponent('transform')
+  const childTransform = child.getComponent('transform')
+  if (!parentTransform || !childTransform) return
+
+  const local = toMatrix(parentMatrix, parentTransform.position, parentTransform.rotation, parentTransform.scale)
+    .invert()
+    .multiply(toMatrix(localMatrix, childTransform.position, childTransform.rotation, childTransform.scale))
+
+  const localPosition = new THREE.Vector3()
+  const localQuaternion = new THREE.Quaternion()
+  const localScale = new THREE.Vector3()
+  local.decompose(localPosition, localQuaternion, localScale)
+
+  child.addComponent(createParentComponent(
+    parentId,
+    localPosition,
+    new THREE.Euler().setFromQuaternion(localQuaternion),
+    onParentRemoved,
+    localScale
+  ))
+}
+
+// Detach a child - its transform already holds the world-space result
+export function detachFromParent(child: Entity): void {
+  child.removeComponent('parent')
+}
+
+export class HierarchySystem extends System {
+  readonly name = 'hierarchy'
+  readonly phase: SystemPhase = 'postPhysics' // After everything that moves parents this step
+
+  private children!: Query<readonly ['parent', 'transform']>
+  private resolved = new Set<EntityId>() // Children already resolved this step
+  private chain: EntityId[] = [] // Children whose parents are being resolved
+  private unsubscribe: (() => void) | null = null
+
+  attach(world: ECSWorld): void {
+    super.attach(world)
+    this.children = world.query({ with: ['parent', 'transform'] })
+    this.unsubscribe = world.on('entityRemoved', ({ entity }) => this.handleParentRemoved(entity.id))
+  }
+
+  detach(): void {
+    this.unsubscribe?.()
+    this.unsubscribe = null
+  }
+
+  update(): void {
+    // Parents are resolved before their children, so chains of any depth
+    // see this step's values
+    this.resolved.clear()
+    this.children.entities.forEach(child => this.resolve(child))
+  }
+
+  private resolve(child: Entity): void {
+    if (this.resolved.has(child.id)) return
+    this.resolved.add(child.id)
+
+    const parentLink = child.getComponent('parent')
+    const transform = child.getComponent('transform')
+    const parent = parentLink && this.world.getEntity(parentLink.parent)
+    if (!parentLink || !transform || !parent) return // Parent gone - removal is pending
+
+    if (this.chain.includes(parent.id)) return // Cycle guard - leave the transform as is
+    if (parent.hasComponent('parent')) {
+      this.chain.push(child.id)
+      this.resolve(parent)
+      this.chain.pop()
+    }
+
+    const parentTransform = parent.getComponent('transform')
+    if (!parentTransform) return
+
+    // Built after the parent is resolved - the recursion reuses the same scratch matrices
+    const world = toMatrix(parentMatrix, parentTransform.position, parentTransform.rotation, parentTransform.scale)
+      .multiply(toMatrix(localMatrix, parentLink.localPosition, parentLink.localRotation, parentLink.localScale))
+
+    world.decompose(transform.position, quaternion, transform.scale)
+    transform.rotation.setFromQuaternion(quaternion)
+  }
+
+  // Destroy or release the children of a removed entity
+  private handleParentRemoved(parentId: EntityId): void {
+    this.children.entities
+      .filter(child => child.getComponent('parent')?.parent === parentId)
+      .forEach(child => {
+        if (child.getComponent('parent')!.onParentRemoved === 'destroy') {
+          this.world.commands.destroyEntity(child.id)
+        } else {
+          this.world.commands.removeComponent(child.id, 'parent')
+        }
+      })
+  }
+}
+
+// Compose a transform into the target matrix
+function toMatrix(target: THREE.Matrix4, position: THREE.Vector3, rotation: THREE.Euler, scale: THREE.Vector3): THREE.Matrix4 {
+  return target.compose(position, quaternion.setFromEuler(rotation), scale)
+}
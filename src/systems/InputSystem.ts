@@ -0,0 +1,219 @@
+// Input System - the single entry point for player input into the simulation
+// UI code (click-to-move, targeting, skill keys, VR buttons) enqueues input
+// commands; they are applied at the start of the next fixed step and stamped
+// with its tick. A recording (start snapshot + tick-stamped inputs) can be
+// replayed against a world - in the browser or a HeadlessRunner - to
+// reproduce a session exactly.
+import * as THREE from 'three'
+import { System } from './ECS'
+import type { EntityId, SystemPhase } from './ECS'
+import { createSnapshot, restoreSnapshot } from './Snapshot'
+import type { WorldSnapshot } from './Snapshot'
+import type { PlayerCombatSystem } from './PlayerCombatSystem'
+import { logger } from '../utils/Logger'
+
+const log = logger.for('ecs')
+
+export type Vector3Tuple = [number, number, number]
+
+export type InputCommand =
+  | { kind: 'moveTo'; position: Vector3Tuple }
+  | { kind: 'stop' }
+  | { kind: 'setTarget'; entityId: EntityId | null }
+  | { kind: 'attack' }
+  | { kind: 'castSkill'; skillId: string; targetPosition?: Vector3Tuple }
+  | { kind: 'respawn' }
+
+export interface RecordedInput {
+  tick: number
+  command: InputCommand
+}
+
+// Bump when the recording format changes incompatibly
+export const RECORDING_VERSION = 1
+
+export interface InputRecording {
+  version: number
+  startTick: number
+  endTick: number
+  snapshot: WorldSnapshot // World state when recording started
+  inputs: RecordedInput[]
+}
+
+export class RecordingError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RecordingError'
+  }
+}
+
+const SPAWN_POSITION = new THREE.Vector3(0, 0.5, 0)
+
+export class InputSystem extends System {
+  readonly name = 'input'
+  readonly phase: SystemPhase = 'input'
+
+  private playerEntityId: string = 'player_entity'
+  private pending: InputCommand[] = []
+  private recording: InputRecording | null = null
+  private replay: { recording: InputRecording; index: number } | null = null
+
+  setPlayerEntity(entityId: string) {
+    this.playerEntityId = entityId
+  }
+
+  // Queue live input for the next step. Ignored while a replay is running.
+  enqueue(command: InputCommand): boolean {
+    if (this.replay) return false
+    this.pending.push(command)
+    return true
+  }
+
+  get isRecording(): boolean {
+    return this.recording !== null
+  }
+
+  get isReplaying(): boolean {
+    return this.replay !== null
+  }
+
+  startRecording(): void {
+    const snapshot = createSnapshot(this.world)
+    this.recording = {
+      version: RECORDING_VERSION,
+      startTick: snapshot.tick,
+      endTick: snapshot.tick,
+      snapshot,
+      inputs: []
+    }
+  }
+
+  stopRecording(): InputRecording | null {
+    const recording = this.recording
+    if (recording) {
+      recording.endTick = this.world.clock.tick
+    }
+    this.recording = null
+    return recording
+  }
+
+  // Restore the recording's start state and feed its inputs back tick by tick.
+  // Throws (leaving the world and any live recording untouched) if it can't be restored.
+  startReplay(recording: InputRecording): void {
+    if (recording.version !== RECORDING_VERSION) {
+      throw new RecordingError(`Unsupported recording version ${recording.version} (expected ${RECORDING_VERSION})`)
+    }
+
+    restoreSnapshot(this.world, recording.snapshot)
+    this.recording = null
+    this.replay = { recording, index: 0 }
+    this.pending = []
+  }
+
+  stopReplay(): void {
+    this.replay = null
+  }
+
+  update(): void {
+    const tick = this.world.clock.tick
+    const commands = this.replay ? this.takeReplayed(tick) : this.takePending()
+
+    commands.forEach(command => {
+      this.recording?.inputs.push({ tick, command })
+      this.apply(command)
+    })
+
+    if (this.replay && tick >= this.replay.recording.endTick) {
+      log.info(`⏹️ Replay finished at tick ${tick}`)
+      this.replay = null
+    }
+  }
+
+  private takePending(): InputCommand[] {
+    const commands = this.pending
+    this.pending = []
+    return commands
+  }
+
+  private takeReplayed(tick: number): InputCommand[] {
+    const replay = this.replay!
+    const { inputs } = replay.recording
+    const commands: InputCommand[] = []
+    while (replay.index < inputs.length && inputs[replay.index].tick <= tick) {
+      commands.push(inputs[replay.index].command)
+      replay.index++
+    }
+    return commands
+  }
+
+  private apply(command: InputCommand): void {
+    const player = this.world.getEntity(this.playerEntityId)
+    const combat = this.world.getSystem<PlayerCombatSystem>('playerCombat')
+
+    switch (command.kind) {
+      case 'moveTo': {
+        const movement = player?.getComponent('movement')
+        if (movement) {
+          movement.targetPosition = new THREE.Vector3(...command.position)
+          movement.isMoving = true
+        }
+        break
+      }
+
+      case 'stop': {
+        const movement = player?.getComponent('movement')
+        if (movement) {
+          movement.targetPosition = undefined
+          movement.isMoving = false
+          movement.velocity.set(0, 0, 0)
+        }
+        break
+      }
+
+      case 'setTarget':
+        combat?.setTarget(command.entityId)
+        break
+
+      case 'attack':
+        combat?.tryAttack()
+        break
+
+      case 'castSkill':
+        combat?.castSkill(
+          command.skillId,
+          command.targetPosition && new THREE.Vector3(...command.targetPosition)
+        )
+        break
+
+      case 'respawn': {
+        const health = player?.getComponent('health')
+        const mana = player?.getComponent('mana')
+        const defence = player?.getComponent('defence')
+        const transform = player?.getComponent('transform')
+        if (health) health.current = health.maximum
+        if (mana) mana.current = mana.maximum
+        if (defence) defence.energyShield = defence.maxEnergyShield
+        player?.removeComponent('dead')
+        if (transform) {
+          transform.position.copy(SPAWN_POSITION)
+          transform.previousPosition.copy(SPAWN_POSITION)
+        }
+        this.apply({ kind: 'stop' })
+        combat?.setTarget(null)
+        break
+      }
+    }
+  }
+}
+
+export function serializeRecording(recording: InputRecording): string {
+  return JSON.stringify(recording)
+}
+
+export function parseRecording(json: string): InputRecording {
+  const recording = JSON.parse(json) as InputRecording
+  if (typeof recording?.version !== 'number' || !Array.isArray(recording.inputs) || !recording.snapshot) {
+    throw new RecordingError('Not an input recording')
+  }
+  return recording
+}
@@ -0,0 +1,50 @@
+// Inspection helpers for the developer inspector overlay
+// Turns components into displayable fields and applies edits to numeric
+// fields (health, damage, speed, aggro range, ...) by name.
+import * as THREE from 'three'
+import type { ECSWorld, EntityId, ComponentType, RegisteredComponent } from './ECS'
+
+export interface InspectorField {
+  name: string
+  value: string | number
+  editable: boolean // Plain numbers can be edited in place
+}
+
+// Displayable fields of a component (everything except its type)
+export function describeComponent(component: RegisteredComponent): InspectorField[] {
+  return Object.entries(component)
+    .filter(([name]) => name !== 'type')
+    .map(([name, value]) => ({
+      name,
+      value: typeof value === 'number' ? value : formatValue(value),
+      editable: typeof value === 'number'
+    }))
+}
+
+// Set a numeric component field. Returns false if the entity, component or
+// numeric field doesn't exist.
+export function setComponentField(
+  world: ECSWorld,
+  entityId: EntityId,
+  componentType: ComponentType,
+  field: string,
+  value: number
+): boolean {
+  const component = world.getEntity(entityId)?.getComponent(componentType) as Record<string, unknown> | undefined
+  if (!component || typeof component[field] !== 'number' || !Number.isFinite(value)) return false
+  component[field] = value
+  return true
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) return '-'
+  if (value instanceof THREE.Vector3 || value instanceof THREE.Euler) {
+    return `(${value.x.toFixed(2)}, ${value.y.toFixed(2)}, ${value.z.toFixed(2)})`
+  }
+  if (Array.isArray(value)) return `[${value.map(formatValue).join(', ')}]`
+  if (typeof value === 'object') {
+    const prototype = Object.getPrototypeOf(value)
+    return prototype === Object.prototype ? JSON.stringify(value) : prototype?.constructor?.name || 'object'
+  }
+  return String(value)
+}
@@ -0,0 +1,20 @@
+// Mana System - regenerates mana for living entities
+// Spending happens in SkillSystem.castSkill
+import { System, ECSWorld, Query } from './ECS'
+
+export class ManaSystem extends System {
+  readonly name = 'mana'
+
+  private casters!: Query<readonly ['mana']>
+
+  attach(world: ECSWorld): void {
+    super.attach(world)
+    this.casters = world.query({ with: ['mana'], without: ['dead'] })
+  }
+
+  update(deltaTime: number): void {
+    this.casters.forEach((_entity, [mana]) => {
+      mana.current = Math.min(mana.maximum, mana.current + mana.regeneration * deltaTime)
+    })
+  }
+}
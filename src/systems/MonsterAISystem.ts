@@ -1,56 +1,81 @@
 // Basic Monster AI System
-import { System, Entity } from './ECS'
-import type { 
-  AIComponent, 
-  TransformComponent, 
-  MovementComponent, 
-  HealthComponent,
-  FactionComponent,
-  CombatStatsComponent
-} from './CombatComponents'
+import { System, Entity, ECSWorld, Query } from './ECS'
+import { applyDamage } from './Damage'
+import { isAliveHostile, isIncapacitated } from './Tags'
+import { movementSpeed } from './Ailments'
+import { cancelSwing, inAttackRange, updateSwing } from './Attacks'
 import * as THREE from 'three'
+import { logger } from '../utils/Logger'
+
+const log = logger.for('ai')
 
 export class MonsterAISystem extends System {
+  readonly name = 'monsterAI'
+
   private playerEntityId: string | null = null
+  private monsters!: Query<readonly ['ai', 'transform', 'health', 'faction']>
+  private unsubscribe: (() => void) | null = null
+
+  attach(world: ECSWorld): void {
+    super.attach(world)
+    this.monsters = world.query({
+      with: ['ai', 'transform', 'health', 'faction'],
+      without: ['dead']
+    })
+
+    // Dead monsters leave the query, so record the state when they die
+    this.unsubscribe = world.events.on('entityDied', ({ entity }) => {
+      const ai = world.getEntity(entity)?.getComponent('ai')
+      if (ai) {
+        ai.state = 'dead'
+        ai.target = undefined
+      }
+    })
+  }
+
+  detach(): void {
+    this.unsubscribe?.()
+    this.unsubscribe = null
+  }
+
+  // Snapshot support
+  saveState(): unknown {
+    return { playerEntityId: this.playerEntityId }
+  }
+
+  loadState(state: unknown): void {
+    this.playerEntityId = (state as { playerEntityId: string | null }).playerEntityId
+  }
 
   setPlayerEntity(entityId: string) {
     this.playerEntityId = entityId
   }
 
-  update(entities: Entity[], deltaTime: number): void {
+  update(deltaTime: number): void {
     // Find player entity
     const playerEntity = this.playerEntityId ? 
-      entities.find(e => e.id === this.playerEntityId) : null
+      this.world.getEntity(this.playerEntityId) : null
     
     if (!playerEntity) return
 
-    const playerTransform = playerEntity.getComponent<TransformComponent>('transform')
+    const playerTransform = playerEntity.getComponent('transform')
     if (!playerTransform) return
 
     // Process all monsters (entities with AI component)
-    const monsters = entities.filter(entity => 
-      entity.hasComponent('ai') && 
-      entity.hasComponent('transform') && 
-      entity.hasComponent('health') &&
-      entity.hasComponent('faction')
-    )
-
-    monsters.forEach(monster => {
-      const ai = monster.getComponent<AIComponent>('ai')!
-      const transform = monster.getComponent<TransformComponent>('transform')!
-      const health = monster.getComponent<HealthComponent>('health')!
-      const faction = monster.getComponent<FactionComponent>('faction')!
-
-      // Skip if dead
-      if (health.current <= 0) {
-        ai.state = 'dead'
+    this.monsters.forEach((monster, [ai, transform, health, faction]) => {
+      // Killed earlier this step - the dead tag lands at the next sync point
+      if (health.current <= 0) return
+
+      // Stunned and frozen monsters stand still, and lose any swing in progress
+      if (isIncapacitated(monster)) {
+        cancelSwing(this.world, monster)
         return
       }
 
-      // Check if player is hostile
-      const isPlayerHostile = faction.hostile.includes('player')
-      if (!isPlayerHostile) {
-        console.log(`👑 Monster ${monster.id} is not hostile to player`)
+      // Only hunt a living, hostile player
+      if (!isAliveHostile(playerEntity, faction.hostile)) {
+        log.debug(`👑 Monster ${monster.id} ignores player (not a living hostile)`)
+        cancelSwing(this.world, monster)
         return
       }
 
@@ -66,6 +91,7 @@ export class MonsterAISystem extends System {
             ai.state = 'chase'
             ai.target = playerEntity.id
             ai.lastTargetPosition = playerTransform.position.clone()
+            this.world.events.emit('aggroChanged', { entity: monster.id, target: playerEntity.id })
           }
           break
 
@@ -73,15 +99,15 @@ export class MonsterAISystem extends System {
           // Update target position
           ai.lastTargetPosition = playerTransform.position.clone()
           
-          // Reduced debug logging (only occasionally)
-          if (Math.random() < 0.01) { // 1% chance to log
-            console.log(`🏃 Monster ${monster.id} chasing player (distance: ${distanceToPlayer.toFixed(2)})`)
+          // Per-step trace - enable with logger.setLevel('ai', 'debug')
+          if (logger.isEnabled('ai', 'debug')) {
+            log.debug(`🏃 Monster ${monster.id} chasing player (distance: ${distanceToPlayer.toFixed(2)})`)
           }
           
-          // Check if close enough to attack
-          if (distanceToPlayer <= 1.5) { // Attack range
+          // Check if close enough to attack (combatStats.attackRange)
+          if (inAttackRange(monster, playerEntity)) {
             ai.state = 'attack'
-            console.log(`⚔️ Monster ${monster.id} entering attack state`)
+            log.info(`⚔️ Monster ${monster.id} entering attack state`)
           } else {
             // Move toward player
             this.moveTowardsTarget(monster, playerTransform.position, deltaTime)
@@ -91,20 +117,17 @@ export class MonsterAISystem extends System {
           if (distanceToPlayer > ai.aggroRange * 1.5) {
             ai.state = 'idle'
             ai.target = undefined
+            this.world.events.emit('aggroChanged', { entity: monster.id, target: null })
           }
           break
         }
 
         case 'attack': {
-          // Attack cooldown check
-          const currentTime = Date.now() / 1000
-          if (currentTime - ai.lastAttackTime >= ai.attackCooldown) {
-            this.performAttack(monster, playerEntity)
-            ai.lastAttackTime = currentTime
-          }
+          // Swing on the monster's attack speed; the hit lands after its wind-up
+          const phase = updateSwing(this.world, monster, playerEntity, () => this.performAttack(monster, playerEntity))
 
-          // Move back to chase if player moves away
-          if (distanceToPlayer > 2.0) {
+          // Move back to chase if player moves out of reach
+          if (phase === 'outOfRange') {
             ai.state = 'chase'
           }
           break
@@ -118,8 +141,8 @@ export class MonsterAISystem extends System {
   }
 
   private moveTowardsTarget(monster: Entity, targetPosition: THREE.Vector3, deltaTime: number) {
-    const transform = monster.getComponent<TransformComponent>('transform')!
-    const movement = monster.getComponent<MovementComponent>('movement')
+    const transform = monster.getComponent('transform')!
+    const movement = monster.getComponent('movement')
 
     if (!movement) return
 
@@ -127,7 +150,7 @@ export class MonsterAISystem extends System {
     const direction = targetPosition.clone().sub(transform.position).normalize()
     
     // Move towards target
-    const moveDistance = movement.speed * deltaTime
+    const moveDistance = movementSpeed(monster) * deltaTime // Slowed by chill
     const newPosition = transform.position.clone().add(direction.multiplyScalar(moveDistance))
     
     // Update position
@@ -140,24 +163,16 @@ export class MonsterAISystem extends System {
   }
 
   private performAttack(monster: Entity, target: Entity) {
-    const monsterCombat = monster.getComponent<CombatStatsComponent>('combatStats')
-    const targetHealth = target.getComponent<HealthComponent>('health')
+    const monsterCombat = monster.getComponent('combatStats')
+    const targetHealth = target.getComponent('health')
     
     if (!monsterCombat || !targetHealth) return
 
     // Calculate damage
-    const damage = monsterCombat.damage + Math.random() * 5 // Add some randomness
+    const damage = monsterCombat.damage + this.world.random.stream('combat').range(0, 5) // Add some randomness
     const finalDamage = Math.max(1, Math.floor(damage)) // Minimum 1 damage
     
-    // Apply damage
-    targetHealth.current = Math.max(0, targetHealth.current - finalDamage)
-    
-    console.log(`🔥 Monster ${monster.id} attacks player for ${finalDamage} damage!`)
-    console.log(`💗 Player health: ${targetHealth.current}/${targetHealth.maximum}`)
-    
-    // Check if player died
-    if (targetHealth.current <= 0) {
-      console.log('💀 Player has died!')
-    }
+    // Apply damage (publishes damageDealt / entityDied)
+    applyDamage(this.world, target, { source: monster.id, kind: 'attack', damage: { physical: finalDamage } })
   }
 }
@@ -1,32 +1,48 @@
 // Target Selection and Combat System
 import { System, Entity } from './ECS'
-import type { 
-  TransformComponent, 
-  HealthComponent,
-  CombatStatsComponent,
-  FactionComponent,
-  AIComponent
-} from './CombatComponents'
-import { SkillSystem } from './SkillSystem'
+import { SkillSystem, castFailed } from './SkillSystem'
+import type { CastResult } from './SkillSystem'
+import { applyDamage } from './Damage'
+import { isAlive, isAliveHostile, isIncapacitated } from './Tags'
+import { cancelSwing, isSwingReady, updateSwing } from './Attacks'
 import * as THREE from 'three'
+import { logger } from '../utils/Logger'
 
+const log = logger.for('combat')
+
+// Attack timing lives in the player's combatStats and swing component (see Attacks.ts)
 export interface TargetingState {
   selectedTarget: string | null
-  attackCooldown: number
-  lastAttackTime: number
 }
 
 export class PlayerCombatSystem extends System {
+  readonly name = 'playerCombat'
+  readonly runAfter = ['monsterAI']
+
   private targetingState: TargetingState = {
-    selectedTarget: null,
-    attackCooldown: 1.0, // 1 second between attacks
-    lastAttackTime: 0
+    selectedTarget: null
   }
 
   private playerEntityId: string = 'player_entity'
   private skillSystem: SkillSystem | null = null
   private clearTargetCallback: ((targetId: string | null) => void) | null = null
 
+  // Snapshot support
+  saveState(): unknown {
+    return { targetingState: this.targetingState, playerEntityId: this.playerEntityId }
+  }
+
+  loadState(state: unknown): void {
+    const saved = state as { targetingState: TargetingState; playerEntityId: string }
+    this.targetingState = { ...saved.targetingState }
+    this.playerEntityId = saved.playerEntityId
+
+    // Keep the game store's target highlight in sync
+    if (this.clearTargetCallback) {
+      this.clearTargetCallback(this.targetingState.selectedTarget)
+    }
+  }
+
   // Set skill system reference
   setSkillSystem(skillSystem: SkillSystem) {
     this.skillSystem = skillSystem
@@ -38,19 +54,22 @@ export class PlayerCombatSystem extends System {
   }
 
   // Cast a skill at target position
-  castSkill(skillId: string, targetPosition?: THREE.Vector3): boolean {
+  castSkill(skillId: string, targetPosition?: THREE.Vector3): CastResult {
     if (!this.skillSystem) {
-      console.log('Skill system not available')
-      return false
+      log.warn('Skill system not available')
+      return castFailed(this.world, this.playerEntityId, skillId, 'unavailable')
     }
 
     // Check if player is alive before casting skills
-    const playerEntity = this.skillSystem.ecsWorld?.getEntity(this.playerEntityId)
+    const playerEntity = this.world.getEntity(this.playerEntityId)
     if (playerEntity) {
-      const playerHealth = playerEntity.getComponent('health') as HealthComponent
-      if (playerHealth && playerHealth.current <= 0) {
-        console.log('💀 Player is dead, cannot cast skills')
-        return false
+      if (playerEntity.hasComponent('health') && !isAlive(playerEntity)) {
+        log.info('💀 Player is dead, cannot cast skills')
+        return castFailed(this.world, this.playerEntityId, skillId, 'dead')
+      }
+      if (isIncapacitated(playerEntity)) {
+        log.info('💫 Player is stunned or frozen, cannot cast skills')
+        return castFailed(this.world, this.playerEntityId, skillId, 'incapacitated')
       }
     }
 
@@ -58,9 +77,9 @@ export class PlayerCombatSystem extends System {
     let target = targetPosition
     if (!target && this.targetingState.selectedTarget) {
       // Find target entity position
-      const targetEntity = this.skillSystem.ecsWorld?.getEntity(this.targetingState.selectedTarget)
+      const targetEntity = this.world.getEntity(this.targetingState.selectedTarget)
       if (targetEntity) {
-        const targetTransform = targetEntity.getComponent('transform') as TransformComponent
+        const targetTransform = targetEntity.getComponent('transform')
         if (targetTransform) {
           target = targetTransform.position
         }
@@ -68,34 +87,34 @@ export class PlayerCombatSystem extends System {
     }
 
     if (!target) {
-      console.log('No target for skill')
-      return false
+      log.info('No target for skill')
+      return castFailed(this.world, this.playerEntityId, skillId, 'noTarget')
     }
 
-    return this.skillSystem.castSkill(this.playerEntityId, skillId, target, this.skillSystem.ecsWorld?.getAllEntities() || [])
+    return this.skillSystem.castSkill(this.playerEntityId, skillId, target)
   }
 
   // Quick skill casting methods
-  castFireball(targetPosition?: THREE.Vector3): boolean {
+  castFireball(targetPosition?: THREE.Vector3): CastResult {
     return this.castSkill('fireball', targetPosition)
   }
 
-  castIceShard(targetPosition?: THREE.Vector3): boolean {
+  castIceShard(targetPosition?: THREE.Vector3): CastResult {
     return this.castSkill('iceShard', targetPosition)
   }
 
-  castLightning(targetPosition?: THREE.Vector3): boolean {
+  castLightning(targetPosition?: THREE.Vector3): CastResult {
     return this.castSkill('lightning', targetPosition)
   }
 
-  castHeal(): boolean {
+  castHeal(): CastResult {
     return this.castSkill('heal')
   }
 
   // Set the current target
   setTarget(entityId: string | null) {
     this.targetingState.selectedTarget = entityId
-    console.log(`🎯 PlayerCombatSystem: Target set to ${entityId}`)
+    log.debug(`🎯 PlayerCombatSystem: Target set to ${entityId}`)
   }
 
   // Get current target
@@ -105,40 +124,51 @@ export class PlayerCombatSystem extends System {
 
   // Attempt to attack current target
   tryAttack(): boolean {
-    const currentTime = Date.now() / 1000
-    if (currentTime - this.targetingState.lastAttackTime < this.targetingState.attackCooldown) {
-      return false // Still on cooldown
+    const playerEntity = this.world.getEntity(this.playerEntityId)
+    if (!playerEntity || !isSwingReady(this.world, playerEntity)) {
+      return false // Mid-swing or still recovering
     }
 
     if (!this.targetingState.selectedTarget) {
       return false // No target selected
     }
 
-    this.targetingState.lastAttackTime = currentTime
-    return true // Attack successful, will be processed in update
+    return true // Attack will start in update
   }
 
-  update(entities: Entity[], deltaTime: number): void {
-    const playerEntity = entities.find(e => e.id === this.playerEntityId)
+  update(): void {
+    const playerEntity = this.world.getEntity(this.playerEntityId)
     if (!playerEntity) return
 
-    const playerTransform = playerEntity.getComponent<TransformComponent>('transform')
-    const playerCombatStats = playerEntity.getComponent<CombatStatsComponent>('combatStats')
-    const playerFaction = playerEntity.getComponent<FactionComponent>('faction')
-    const playerHealth = playerEntity.getComponent<HealthComponent>('health')
+    const playerTransform = playerEntity.getComponent('transform')
+    const playerCombatStats = playerEntity.getComponent('combatStats')
+    const playerFaction = playerEntity.getComponent('faction')
+    const playerHealth = playerEntity.getComponent('health')
     
     if (!playerTransform || !playerCombatStats || !playerFaction || !playerHealth) return
 
-    // Don't allow player to attack if dead
-    if (playerHealth.current <= 0) {
-      console.log('💀 Player is dead, cannot attack')
+    // Don't allow player to attack if dead, stunned or frozen
+    if (!isAlive(playerEntity)) {
+      log.debug('💀 Player is dead, cannot attack')
+      cancelSwing(this.world, playerEntity)
+      return
+    }
+    if (isIncapacitated(playerEntity)) {
+      log.debug('💫 Player is stunned or frozen, cannot attack')
+      cancelSwing(this.world, playerEntity)
+      return
+    }
+
+    // Nothing selected - drop any swing in progress
+    if (!this.targetingState.selectedTarget) {
+      cancelSwing(this.world, playerEntity)
       return
     }
 
     // Process attack if one was initiated
     if (this.targetingState.selectedTarget) {
-      console.log(`🔄 PlayerCombatSystem: Processing target ${this.targetingState.selectedTarget}`)
-      const targetEntity = entities.find(e => e.id === this.targetingState.selectedTarget)
+      log.debug(`🔄 PlayerCombatSystem: Processing target ${this.targetingState.selectedTarget}`)
+      const targetEntity = this.world.getEntity(this.targetingState.selectedTarget)
       
       if (!targetEntity) {
         // Target no longer exists, clear selection
@@ -149,11 +179,9 @@ export class PlayerCombatSystem extends System {
         return
       }
 
-      const targetTransform = targetEntity.getComponent<TransformComponent>('transform')
-      const targetHealth = targetEntity.getComponent<HealthComponent>('health')
-      const targetFaction = targetEntity.getComponent<FactionComponent>('faction')
+      const targetTransform = targetEntity.getComponent('transform')
 
-      if (!targetTransform || !targetHealth || !targetFaction) {
+      if (!targetTransform) {
         this.targetingState.selectedTarget = null
         if (this.clearTargetCallback) {
           this.clearTargetCallback(null)
@@ -161,9 +189,8 @@ export class PlayerCombatSystem extends System {
         return
       }
 
-      // Check if target is hostile
-      const isHostile = playerFaction.hostile.includes(targetFaction.faction)
-      if (!isHostile) {
+      // Check if target is still a living hostile
+      if (!isAliveHostile(targetEntity, playerFaction.hostile)) {
         this.targetingState.selectedTarget = null
         if (this.clearTargetCallback) {
           this.clearTargetCallback(null)
@@ -171,68 +198,56 @@ export class PlayerCombatSystem extends System {
         return
       }
 
-      // Check if target is in range (recalculate every frame)
+      // Range is checked by updateSwing every step
       const distance = playerTransform.position.distanceTo(targetTransform.position)
-      console.log(`📏 Distance to target: ${distance.toFixed(2)}, attack range: ${playerCombatStats.attackRange}`)
-      
-      if (distance > playerCombatStats.attackRange) {
-        // Target out of range, but keep it selected - this allows for dynamic range checking
-        console.log(`❌ Target out of range, moving closer may allow attack`)
-        return // Don't attack, but keep trying
-      }
-
-      // Check if we should attack (based on last attack time and range)
-      const currentTime = Date.now() / 1000
-      const timeSinceLastAttack = currentTime - this.targetingState.lastAttackTime
-      console.log(`⏰ Time since last attack: ${timeSinceLastAttack.toFixed(2)}, cooldown: ${this.targetingState.attackCooldown}`)
+      log.debug(`📏 Distance to target: ${distance.toFixed(2)}, attack range: ${playerCombatStats.attackRange}`)
       
-      if (timeSinceLastAttack >= this.targetingState.attackCooldown) {
-        console.log(`⚔️ Player attacking target!`)
-        this.performAttack(playerEntity, targetEntity)
-        this.targetingState.lastAttackTime = currentTime
-      } else {
-        console.log(`⏳ Still on cooldown`)
+      // Swing on the player's attack speed; the hit lands after the wind-up.
+      // Out of range the target stays selected, so moving closer resumes attacking.
+      const phase = updateSwing(this.world, playerEntity, targetEntity, () => this.performAttack(playerEntity, targetEntity))
+      if (phase === 'outOfRange') {
+        log.debug(`❌ Target out of range, moving closer may allow attack`)
+      } else if (phase === 'hit') {
+        log.debug(`⚔️ Player attacking target!`)
       }
     }
   }
 
   private performAttack(attacker: Entity, target: Entity) {
-    const attackerStats = attacker.getComponent<CombatStatsComponent>('combatStats')!
-    const targetHealth = target.getComponent<HealthComponent>('health')!
+    const attackerStats = attacker.getComponent('combatStats')!
 
     // Make target aggressive when attacked
-    const targetAI = target.getComponent('ai') as AIComponent
+    const targetAI = target.getComponent('ai')
     if (targetAI) {
       targetAI.state = 'chase'
-      targetAI.target = this.playerEntityId
-      console.log(`😡 Target ${target.id} becomes aggressive!`)
+      if (targetAI.target !== this.playerEntityId) {
+        targetAI.target = this.playerEntityId
+        this.world.events.emit('aggroChanged', { entity: target.id, target: this.playerEntityId })
+      }
     }
 
     // Calculate damage
     let damage = attackerStats.damage
 
+    const combatRandom = this.world.random.stream('combat')
+
     // Apply accuracy check
-    if (Math.random() > attackerStats.accuracy) {
-      console.log('Attack missed!')
+    if (!combatRandom.chance(attackerStats.accuracy)) {
+      this.world.events.emit('attackMissed', { source: attacker.id, target: target.id })
       return
     }
 
     // Check for critical hit
-    const isCritical = Math.random() < attackerStats.criticalChance
+    const isCritical = combatRandom.chance(attackerStats.criticalChance)
     if (isCritical) {
       damage *= attackerStats.criticalMultiplier
-      console.log(`Critical hit! ${damage} damage`)
-    } else {
-      console.log(`Hit for ${damage} damage`)
     }
 
     // Apply damage
-    targetHealth.current -= damage
-    console.log(`Target health: ${targetHealth.current}/${targetHealth.maximum}`)
+    applyDamage(this.world, target, { source: attacker.id, kind: 'attack', damage: { physical: damage }, isCrit: isCritical })
 
     // Check if target is dead
-    if (targetHealth.current <= 0) {
-      console.log('Target defeated!')
+    if (!isAlive(target)) {
       this.targetingState.selectedTarget = null
       if (this.clearTargetCallback) {
         this.clearTargetCallback(null)
@@ -241,19 +256,16 @@ export class PlayerCombatSystem extends System {
   }
 
   // Check if target is valid for selection
-  isValidTarget(entityId: string, entities: Entity[]): boolean {
-    const playerEntity = entities.find(e => e.id === this.playerEntityId)
-    const targetEntity = entities.find(e => e.id === entityId)
+  isValidTarget(entityId: string): boolean {
+    const playerEntity = this.world.getEntity(this.playerEntityId)
+    const targetEntity = this.world.getEntity(entityId)
     
     if (!playerEntity || !targetEntity) return false
 
-    const playerFaction = playerEntity.getComponent<FactionComponent>('faction')
-    const targetFaction = targetEntity.getComponent<FactionComponent>('faction')
-    const targetHealth = targetEntity.getComponent<HealthComponent>('health')
-
-    if (!playerFaction || !targetFaction || !targetHealth) return false
+    const playerFaction = playerEntity.getComponent('faction')
+    if (!playerFaction) return false
 
     // Must be hostile and alive
-    return playerFaction.hostile.includes(targetFaction.faction) && targetHealth.current > 0
+    return isAliveHostile(targetEntity, playerFaction.hostile)
   }
 }
@@ -0,0 +1,61 @@
+// Player Movement System - walks the player entity towards its move target
+// Runs inside the fixed step (instead of the render loop) so movement is
+// part of the deterministic simulation and reproduces on replay
+import { System } from './ECS'
+import { isIncapacitated } from './Tags'
+import { movementSpeed } from './Ailments'
+import * as THREE from 'three'
+
+const MOVEMENT_THRESHOLD = 0.1 // Stop moving when this close to target
+const ROTATION_SPEED = 8 // Rotation interpolation speed
+const MAP_BOUNDS = 9 // Rectangular map boundary (+/- on x and z)
+const PLAYER_HEIGHT = 0.5
+
+export class PlayerMovementSystem extends System {
+  readonly name = 'playerMovement'
+  readonly runBefore = ['monsterAI']
+
+  private playerEntityId: string = 'player_entity'
+
+  setPlayerEntity(entityId: string) {
+    this.playerEntityId = entityId
+  }
+
+  update(deltaTime: number): void {
+    const player = this.world.getEntity(this.playerEntityId)
+    const movement = player?.getComponent('movement')
+    const transform = player?.getComponent('transform')
+    if (!player || !movement || !transform || !movement.isMoving || !movement.targetPosition) return
+    if (isIncapacitated(player) || player.hasComponent('dead')) return // Rooted in place
+
+    const direction = new THREE.Vector3().subVectors(movement.targetPosition, transform.position)
+    const distance = direction.length()
+
+    // Reached the target - snap to it and stop
+    if (distance < MOVEMENT_THRESHOLD) {
+      transform.position.copy(movement.targetPosition)
+      movement.targetPosition = undefined
+      movement.isMoving = false
+      movement.velocity.set(0, 0, 0)
+      return
+    }
+
+    direction.normalize()
+    const speed = movementSpeed(player) // Slowed by chill
+    const moveDistance = Math.min(speed * deltaTime, distance)
+    movement.velocity.copy(direction).multiplyScalar(speed)
+
+    // Constrain to map boundaries
+    const position = transform.position.addScaledVector(direction, moveDistance)
+    position.x = Math.max(-MAP_BOUNDS, Math.min(MAP_BOUNDS, position.x))
+    position.z = Math.max(-MAP_BOUNDS, Math.min(MAP_BOUNDS, position.z))
+    position.y = PLAYER_HEIGHT
+
+    // Turn smoothly to face the movement direction (shortest way round)
+    const targetRotation = Math.atan2(direction.x, direction.z)
+    let rotationDiff = targetRotation - transform.rotation.y
+    if (rotationDiff > Math.PI) rotationDiff -= 2 * Math.PI
+    if (rotationDiff < -Math.PI) rotationDiff += 2 * Math.PI
+    transform.rotation.y += rotationDiff * Math.min(1, ROTATION_SPEED * deltaTime)
+  }
+}
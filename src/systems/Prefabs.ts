@@ -0,0 +1,141 @@
+// Prefabs - data-driven entity blueprints
+// A prefab lists components with default values and may extend another prefab;
+// child values override parent values field by field. Definitions are plain
+// data (see src/data/prefabs.ts), instantiated via ECSWorld.spawn(name, overrides).
+import * as THREE from 'three'
+import type { ECSWorld, Entity, EntityId, ComponentType, ComponentRegistry, RegisteredComponent } from './ECS'
+import {
+  createHealthComponent,
+  createCombatStatsComponent,
+  createFactionComponent,
+  createTransformComponent,
+  createAIComponent,
+  createMovementComponent,
+  createAppearanceComponent,
+  createResistanceComponent,
+  createManaComponent,
+  createDefenceComponent
+} from './CombatComponents'
+import { createTag } from './Tags'
+
+// Vectors and rotations may be written as [x, y, z] in data
+type PrefabValue<T> =
+  T extends THREE.Vector3 ? THREE.Vector3 | [number, number, number] :
+  T extends THREE.Euler ? THREE.Euler | [number, number, number] :
+  T
+
+// Field values for one component - every field optional
+export type PrefabComponentData<K extends ComponentType> = {
+  [F in Exclude<keyof ComponentRegistry[K], 'type'>]?: PrefabValue<ComponentRegistry[K][F]>
+}
+
+export type PrefabComponents = {
+  [K in ComponentType]?: PrefabComponentData<K>
+}
+
+export interface PrefabDefinition {
+  extends?: string // Parent prefab name
+  components: PrefabComponents
+}
+
+export class PrefabError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PrefabError'
+  }
+}
+
+// Builds a component from prefab data, filling in defaults
+type ComponentFactories = {
+  [K in ComponentType]?: (data: PrefabComponentData<K>) => ComponentRegistry[K]
+}
+
+const toVector3 = (value?: THREE.Vector3 | [number, number, number]) =>
+  Array.isArray(value) ? new THREE.Vector3(...value) : value
+
+const toEuler = (value?: THREE.Euler | [number, number, number]) =>
+  Array.isArray(value) ? new THREE.Euler(...value) : value
+
+// Components that can appear in prefabs. Render-only and transient
+// components (mesh, projectile, ...) are created by their owners instead.
+const COMPONENT_FACTORIES: ComponentFactories = {
+  health: data => ({ ...createHealthComponent(data.maximum), ...data }),
+  mana: data => ({ ...createManaComponent(data.maximum), ...data }),
+  combatStats: data => createCombatStatsComponent(data),
+  resistances: data => createResistanceComponent(data),
+  defence: data => createDefenceComponent(data),
+  faction: data => ({ ...createFactionComponent(data.faction || 'neutral'), ...data }),
+  transform: data => createTransformComponent(toVector3(data.position), toEuler(data.rotation), toVector3(data.scale)),
+  ai: data => createAIComponent(data.aggroRange),
+  movement: data => createMovementComponent(data.speed),
+  appearance: data => createAppearanceComponent(data),
+  // Tags carry no data - list them as e.g. `boss: {}`
+  stunned: () => createTag('stunned'),
+  invulnerable: () => createTag('invulnerable'),
+  boss: () => createTag('boss')
+}
+
+export class PrefabRegistry {
+  private definitions = new Map<string, PrefabDefinition>()
+
+  constructor(definitions: Record<string, PrefabDefinition> = {}) {
+    this.defineAll(definitions)
+  }
+
+  define(name: string, definition: PrefabDefinition): void {
+    this.definitions.set(name, definition)
+  }
+
+  defineAll(definitions: Record<string, PrefabDefinition>): void {
+    Object.entries(definitions).forEach(([name, definition]) => this.define(name, definition))
+  }
+
+  has(name: string): boolean {
+    return this.definitions.has(name)
+  }
+
+  names(): string[] {
+    return Array.from(this.definitions.keys())
+  }
+
+  // Flatten the inheritance chain into one set of component data
+  resolve(name: string, chain: string[] = []): PrefabComponents {
+    const definition = this.definitions.get(name)
+    if (!definition) {
+      throw new PrefabError(`Unknown prefab: ${name}`)
+    }
+    if (chain.includes(name)) {
+      throw new PrefabError(`Prefab inheritance cycle: ${[...chain, name].join(' -> ')}`)
+    }
+
+    const parent = definition.extends ? this.resolve(definition.extends, [...chain, name]) : {}
+    return mergeComponents(parent, definition.components)
+  }
+
+  // Create an entity from a prefab, with per-component field overrides
+  instantiate(world: ECSWorld, name: string, overrides: PrefabComponents = {}, id?: EntityId): Entity {
+    const data = mergeComponents(this.resolve(name), overrides)
+    const components = (Object.keys(data) as ComponentType[]).map(type => buildComponent(type, data))
+
+    const entity = world.createEntity(id || world.generateId(name.replace(/\./g, '_')))
+    components.forEach(component => entity.addComponent(component))
+    return entity
+  }
+}
+
+function buildComponent<K extends ComponentType>(type: K, data: PrefabComponents): RegisteredComponent {
+  const factory = COMPONENT_FACTORIES[type] as ((data: PrefabComponentData<K>) => ComponentRegistry[K]) | undefined
+  if (!factory) {
+    throw new PrefabError(`Component '${type}' cannot be created from prefab data`)
+  }
+  return factory(data[type] as PrefabComponentData<K>)
+}
+
+// Field-by-field merge; values in `overrides` win
+function mergeComponents(base: PrefabComponents, overrides: PrefabComponents): PrefabComponents {
+  const merged: Record<string, object> = { ...base }
+  Object.entries(overrides).forEach(([type, fields]) => {
+    merged[type] = { ...merged[type], ...fields }
+  })
+  return merged as PrefabComponents
+}
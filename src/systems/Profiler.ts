@@ -0,0 +1,36 @@
+// System Profiler - per-system update timings for the inspector overlay
+// Off by default; when enabled ECSWorld.update times every System.update call.
+
+export interface SystemTiming {
+  name: string
+  lastMs: number    // Latest update
+  averageMs: number // Exponential moving average
+  maxMs: number     // Worst update since the last reset
+}
+
+const AVERAGE_WEIGHT = 0.05 // Weight of the newest sample in the moving average
+
+export class SystemProfiler {
+  enabled = false
+  private timings = new Map<string, SystemTiming>()
+
+  record(name: string, ms: number): void {
+    const timing = this.timings.get(name)
+    if (!timing) {
+      this.timings.set(name, { name, lastMs: ms, averageMs: ms, maxMs: ms })
+      return
+    }
+    timing.lastMs = ms
+    timing.averageMs += (ms - timing.averageMs) * AVERAGE_WEIGHT
+    timing.maxMs = Math.max(timing.maxMs, ms)
+  }
+
+  // Timings in the order systems first ran (i.e. schedule order)
+  getTimings(): SystemTiming[] {
+    return Array.from(this.timings.values(), timing => ({ ...timing }))
+  }
+
+  reset(): void {
+    this.timings.clear()
+  }
+}
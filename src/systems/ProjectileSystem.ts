@@ -1,17 +1,19 @@
 // Projectile System for spells and ranged attacks
-import { System, Entity } from './ECS'
-import type { 
-  TransformComponent, 
-  HealthComponent,
-  FactionComponent 
-} from './CombatComponents'
-import type { Component } from './ECS'
+import { System, Entity, ECSWorld, Query } from './ECS'
+import type { Component, EntityId, SystemPhase } from './ECS'
+import { createTransformComponent, hostileFactionsOf } from './CombatComponents'
+import type { DamageValues } from './CombatComponents'
+import { LIVING_TARGETS, isAliveHostile } from './Tags'
+import { applyDamage, scaleDamage } from './Damage'
+import type { Hit } from './Damage'
+import type { AilmentChance } from './Ailments'
+import { EntityPool } from './EntityPool'
 import * as THREE from 'three'
 
 // Projectile-specific component
 export interface ProjectileComponent extends Component {
   type: 'projectile'
-  damage: number
+  damage: DamageValues
   speed: number
   maxRange: number
   travelDistance: number
@@ -19,9 +21,13 @@ export interface ProjectileComponent extends Component {
   targetPosition: THREE.Vector3
   onHitEffect?: 'none' | 'explosion' | 'pierce'
   effectRadius?: number
+  projectileType?: 'fireball' | 'iceShard' | 'lightning' // Visual style for renderers
+  casterId?: EntityId // Credited as the damage source
+  penetration?: DamageValues
+  ailments?: AilmentChance[]
 }
 
-// Spell effect component
+// Spell effect component - a short-lived visual burst (e.g. an explosion)
 export interface SpellEffectComponent extends Component {
   type: 'spellEffect'
   effectType: 'fireball' | 'iceShard' | 'lightning' | 'heal'
@@ -29,111 +35,233 @@ export interface SpellEffectComponent extends Component {
   startTime: number
   targetPosition: THREE.Vector3
   casterEntityId: string
+  radius: number // Size the burst grows to
+}
+
+// Register projectile components with the ECS component registry
+declare module './ECS' {
+  interface ComponentRegistry {
+    projectile: ProjectileComponent
+    spellEffect: SpellEffectComponent
+  }
 }
 
 // Create projectile component
 export const createProjectileComponent = (
-  damage: number,
+  damage: DamageValues,
   speed: number,
   targetPosition: THREE.Vector3,
   casterFaction: string,
   maxRange = 15,
   onHitEffect: 'none' | 'explosion' | 'pierce' = 'none',
-  effectRadius = 0
+  effectRadius = 0,
+  projectileType?: 'fireball' | 'iceShard' | 'lightning',
+  casterId?: EntityId,
+  penetration?: DamageValues
 ): ProjectileComponent => ({
   type: 'projectile',
-  damage,
+  damage: { ...damage },
   speed,
   maxRange,
   travelDistance: 0,
   casterFaction,
   targetPosition: targetPosition.clone(),
   onHitEffect,
-  effectRadius
+  effectRadius,
+  projectileType,
+  casterId,
+  penetration
 })
 
+// Launch parameters for a pooled projectile (see ProjectileSystem.spawnProjectile)
+export interface ProjectileLaunch {
+  damage: DamageValues
+  speed: number
+  targetPosition: THREE.Vector3
+  casterFaction: string
+  maxRange?: number
+  onHitEffect?: 'none' | 'explosion' | 'pierce'
+  effectRadius?: number
+  projectileType?: 'fireball' | 'iceShard' | 'lightning'
+  casterId?: EntityId
+  penetration?: DamageValues
+  ailments?: AilmentChance[]
+}
+
+// Re-initialise a recycled projectile component in place
+export function resetProjectileComponent(component: ProjectileComponent, launch: ProjectileLaunch): void {
+  component.damage = { ...launch.damage }
+  component.speed = launch.speed
+  component.maxRange = launch.maxRange ?? 15
+  component.travelDistance = 0
+  component.casterFaction = launch.casterFaction
+  component.targetPosition.copy(launch.targetPosition)
+  component.onHitEffect = launch.onHitEffect ?? 'none'
+  component.effectRadius = launch.effectRadius ?? 0
+  component.projectileType = launch.projectileType
+  component.casterId = launch.casterId
+  component.penetration = launch.penetration
+  component.ailments = launch.ailments
+}
+
 // Create spell effect component
 export const createSpellEffectComponent = (
   effectType: 'fireball' | 'iceShard' | 'lightning' | 'heal',
   targetPosition: THREE.Vector3,
   casterEntityId: string,
-  duration = 2.0
+  startTime: number, // Simulation time (ECSWorld.clock.time) the effect begins
+  duration = 2.0,
+  radius = 1
 ): SpellEffectComponent => ({
   type: 'spellEffect',
   effectType,
   duration,
-  startTime: Date.now() / 1000,
+  startTime,
   targetPosition: targetPosition.clone(),
-  casterEntityId
+  casterEntityId,
+  radius
 })
 
+// Pooled entities kept ready per kind - raise for multi-projectile builds
+export interface ProjectilePoolSizes {
+  projectile: number
+  spellEffect: number
+}
+
+export const DEFAULT_POOL_SIZES: ProjectilePoolSizes = {
+  projectile: 32,
+  spellEffect: 16
+}
+
+// Scratch vector for per-step movement (avoids a clone per projectile per step)
+const direction = new THREE.Vector3()
+
+const EXPLOSION_EFFECT_DURATION = 0.4 // Seconds the explosion burst is shown
+
 export class ProjectileSystem extends System {
-  update(entities: Entity[], deltaTime: number): void {
-    // Process all projectiles
-    const projectiles = entities.filter(entity => 
-      entity.hasComponent('projectile') && 
-      entity.hasComponent('transform')
-    )
+  readonly name = 'projectiles'
+  readonly phase: SystemPhase = 'physics'
+
+  private projectiles!: Query
+  private spellEffects!: Query
+  private targets!: Query<typeof LIVING_TARGETS.with>
+  private projectilePool!: EntityPool
+  private spellEffectPool!: EntityPool
+  private poolSizes: ProjectilePoolSizes
+
+  constructor(poolSizes: Partial<ProjectilePoolSizes> = {}) {
+    super()
+    this.poolSizes = { ...DEFAULT_POOL_SIZES, ...poolSizes }
+  }
 
-    projectiles.forEach(projectile => {
-      this.updateProjectile(projectile, entities, deltaTime)
+  attach(world: ECSWorld): void {
+    super.attach(world)
+    this.projectiles = world.query({ with: ['projectile', 'transform'] })
+    this.spellEffects = world.query({ with: ['spellEffect'] })
+    this.targets = world.query(LIVING_TARGETS)
+
+    this.projectilePool = new EntityPool(world, {
+      prefix: 'projectile',
+      size: this.poolSizes.projectile,
+      build: entity => entity
+        .addComponent(createTransformComponent())
+        .addComponent(createProjectileComponent({}, 0, new THREE.Vector3(), 'neutral'))
+    })
+    this.spellEffectPool = new EntityPool(world, {
+      prefix: 'spellEffect',
+      size: this.poolSizes.spellEffect,
+      build: entity => entity.addComponent(createSpellEffectComponent('fireball', new THREE.Vector3(), '', 0))
+    })
+  }
+
+  detach(): void {
+    this.projectilePool.dispose()
+    this.spellEffectPool.dispose()
+  }
+
+  // Launch a projectile from a recycled entity (joins the world at the next sync point)
+  spawnProjectile(position: THREE.Vector3, launch: ProjectileLaunch, idPrefix = 'projectile'): Entity {
+    const projectile = this.projectilePool.acquire(idPrefix)
+
+    const transform = projectile.getComponent('transform')!
+    transform.position.copy(position)
+    transform.previousPosition.copy(position)
+    transform.rotation.set(0, 0, 0)
+    transform.previousRotation.set(0, 0, 0)
+
+    resetProjectileComponent(projectile.getComponent('projectile')!, launch)
+    return projectile
+  }
+
+  // Start a timed spell effect from a recycled entity (joins the world at the next sync point)
+  spawnSpellEffect(
+    effectType: SpellEffectComponent['effectType'],
+    targetPosition: THREE.Vector3,
+    casterEntityId: EntityId,
+    duration = 2.0,
+    radius = 1
+  ): Entity {
+    const effect = this.spellEffectPool.acquire()
+
+    const spellEffect = effect.getComponent('spellEffect')!
+    spellEffect.effectType = effectType
+    spellEffect.targetPosition.copy(targetPosition)
+    spellEffect.casterEntityId = casterEntityId
+    spellEffect.startTime = this.world.clock.time
+    spellEffect.duration = duration
+    spellEffect.radius = radius
+    return effect
+  }
+
+  update(deltaTime: number): void {
+    // Process all projectiles
+    this.projectiles.entities.forEach(projectile => {
+      this.updateProjectile(projectile, deltaTime)
     })
 
     // Process spell effects
-    const spellEffects = entities.filter(entity => entity.hasComponent('spellEffect'))
-    spellEffects.forEach(effect => {
-      this.updateSpellEffect(effect, entities, deltaTime)
+    this.spellEffects.entities.forEach(effect => {
+      this.updateSpellEffect(effect)
     })
   }
 
-  private updateProjectile(projectile: Entity, allEntities: Entity[], deltaTime: number) {
-    const projectileComp = projectile.getComponent<ProjectileComponent>('projectile')!
-    const transform = projectile.getComponent<TransformComponent>('transform')!
+  private updateProjectile(projectile: Entity, deltaTime: number) {
+    const projectileComp = projectile.getComponent('projectile')!
+    const transform = projectile.getComponent('transform')!
 
     // Calculate movement direction
-    const direction = projectileComp.targetPosition.clone()
-      .sub(transform.position)
-      .normalize()
+    direction.subVectors(projectileComp.targetPosition, transform.position).normalize()
 
     // Move projectile
     const moveDistance = projectileComp.speed * deltaTime
-    const newPosition = transform.position.clone().add(direction.multiplyScalar(moveDistance))
-    
-    // Update position
-    transform.position.copy(newPosition)
+    transform.position.addScaledVector(direction, moveDistance)
     projectileComp.travelDistance += moveDistance
 
     // Check for collisions with entities
-    const hitEntity = this.checkCollisions(projectile, allEntities)
+    const hitEntity = this.checkCollisions(projectile)
     if (hitEntity) {
-      this.handleProjectileHit(projectile, hitEntity, allEntities)
+      this.handleProjectileHit(projectile, hitEntity)
       return
     }
 
     // Check if reached target or max range
     const distanceToTarget = transform.position.distanceTo(projectileComp.targetPosition)
     if (distanceToTarget < 0.5 || projectileComp.travelDistance >= projectileComp.maxRange) {
-      this.handleProjectileExpiry(projectile, allEntities)
+      this.handleProjectileExpiry(projectile)
     }
   }
 
-  private checkCollisions(projectile: Entity, allEntities: Entity[]): Entity | null {
-    const projectileComp = projectile.getComponent<ProjectileComponent>('projectile')!
-    const projectileTransform = projectile.getComponent<TransformComponent>('transform')!
+  private checkCollisions(projectile: Entity): Entity | null {
+    const projectileComp = projectile.getComponent('projectile')!
+    const projectileTransform = projectile.getComponent('transform')!
+    const hostileFactions = hostileFactionsOf(projectileComp.casterFaction)
 
-    // Check collision with all entities
-    for (const entity of allEntities) {
+    // Check collision with all living hostile entities
+    for (const entity of this.targets.entities) {
       if (entity.id === projectile.id) continue // Don't hit self
+      if (!isAliveHostile(entity, hostileFactions)) continue
 
-      const entityTransform = entity.getComponent<TransformComponent>('transform')
-      const entityHealth = entity.getComponent<HealthComponent>('health')
-      const entityFaction = entity.getComponent<FactionComponent>('faction')
-
-      if (!entityTransform || !entityHealth || !entityFaction) continue
-      if (entityHealth.current <= 0) continue // Skip dead entities
-
-      // Don't hit allies
-      if (entityFaction.faction === projectileComp.casterFaction) continue
+      const entityTransform = entity.getComponent('transform')!
 
       // Check distance for collision
       const distance = projectileTransform.position.distanceTo(entityTransform.position)
@@ -145,70 +273,76 @@ export class ProjectileSystem extends System {
     return null
   }
 
-  private handleProjectileHit(projectile: Entity, target: Entity, allEntities: Entity[]) {
-    const projectileComp = projectile.getComponent<ProjectileComponent>('projectile')!
-    const targetHealth = target.getComponent<HealthComponent>('health')!
-    const projectileTransform = projectile.getComponent<TransformComponent>('transform')!
+  private handleProjectileHit(projectile: Entity, target: Entity) {
+    const projectileComp = projectile.getComponent('projectile')!
+    const projectileTransform = projectile.getComponent('transform')!
 
     // Apply damage
-    targetHealth.current -= projectileComp.damage
-    console.log(`Projectile hit ${target.id} for ${projectileComp.damage} damage!`)
+    applyDamage(this.world, target, this.hitFrom(projectileComp, projectileComp.damage))
 
     // Handle special effects
     if (projectileComp.onHitEffect === 'explosion' && projectileComp.effectRadius) {
-      this.handleExplosion(projectileTransform.position, projectileComp, allEntities)
+      this.handleExplosion(projectileTransform.position, projectileComp)
     }
 
     // Remove projectile unless it pierces
     if (projectileComp.onHitEffect !== 'pierce') {
-      this.removeProjectile(projectile, allEntities)
+      this.removeProjectile(projectile)
     }
   }
 
-  private handleExplosion(position: THREE.Vector3, projectileComp: ProjectileComponent, allEntities: Entity[]) {
-    console.log(`Explosion at ${position.x.toFixed(1)}, ${position.z.toFixed(1)}!`)
-    
-    // Find all entities in explosion radius
-    allEntities.forEach(entity => {
-      const entityTransform = entity.getComponent<TransformComponent>('transform')
-      const entityHealth = entity.getComponent<HealthComponent>('health')
-      const entityFaction = entity.getComponent<FactionComponent>('faction')
+  private handleExplosion(position: THREE.Vector3, projectileComp: ProjectileComponent) {
+    const hostileFactions = hostileFactionsOf(projectileComp.casterFaction)
+    this.spawnSpellEffect(
+      projectileComp.projectileType || 'fireball',
+      position,
+      projectileComp.casterId || '',
+      EXPLOSION_EFFECT_DURATION,
+      projectileComp.effectRadius
+    )
 
-      if (!entityTransform || !entityHealth || !entityFaction) return
-      if (entityHealth.current <= 0) return
-      if (entityFaction.faction === projectileComp.casterFaction) return
+    // Find all living hostile entities in explosion radius
+    this.targets.forEach((entity, [entityTransform]) => {
+      if (!isAliveHostile(entity, hostileFactions)) return
 
       const distance = entityTransform.position.distanceTo(position)
       if (distance <= projectileComp.effectRadius!) {
         // Damage falls off with distance
         const damageMultiplier = 1.0 - (distance / projectileComp.effectRadius!)
-        const explosionDamage = Math.floor(projectileComp.damage * 0.7 * damageMultiplier)
-        
-        entityHealth.current -= explosionDamage
-        console.log(`Explosion damage: ${explosionDamage} to ${entity.id}`)
+        const explosionDamage = scaleDamage(projectileComp.damage, 0.7 * damageMultiplier)
+
+        applyDamage(this.world, entity, this.hitFrom(projectileComp, explosionDamage))
       }
     })
   }
 
-  private handleProjectileExpiry(projectile: Entity, allEntities: Entity[]) {
-    this.removeProjectile(projectile, allEntities)
+  private hitFrom(projectileComp: ProjectileComponent, damage: DamageValues): Hit {
+    return {
+      source: projectileComp.casterId || null,
+      kind: 'spell',
+      damage,
+      penetration: projectileComp.penetration,
+      ailments: projectileComp.ailments
+    }
+  }
+
+  private handleProjectileExpiry(projectile: Entity) {
+    this.removeProjectile(projectile)
   }
 
-  private removeProjectile(projectile: Entity, _allEntities: Entity[]) {
-    // Find the ECS world and remove the projectile
-    // This is a bit hacky but works for our current setup
-    projectile.destroy()
-    console.log(`Projectile ${projectile.id} removed`)
+  private removeProjectile(projectile: Entity) {
+    // Removal is deferred until the command buffer flushes after this system;
+    // the entity then goes back to the pool
+    this.projectilePool.release(projectile)
   }
 
-  private updateSpellEffect(effect: Entity, _allEntities: Entity[], _deltaTime: number) {
-    const spellEffect = effect.getComponent<SpellEffectComponent>('spellEffect')!
-    const currentTime = Date.now() / 1000
+  private updateSpellEffect(effect: Entity) {
+    const spellEffect = effect.getComponent('spellEffect')!
+    const currentTime = this.world.clock.time
 
     // Check if effect has expired
     if (currentTime - spellEffect.startTime >= spellEffect.duration) {
-      effect.destroy()
-      console.log(`Spell effect ${spellEffect.effectType} expired`)
+      this.spellEffectPool.release(effect)
     }
   }
 }
@@ -0,0 +1,107 @@
+// Seeded Random Number Generation
+// Every random roll in the simulation comes from a named stream derived from
+// one world seed, so a seed plus the same inputs reproduces a fight exactly.
+// Streams are independent: extra loot rolls never shift combat outcomes.
+
+export type RandomStreamName = 'combat' | 'ailments' | 'loot' | 'ai' | 'ids'
+
+// Single deterministic stream (mulberry32)
+export class RandomStream {
+  private state: number
+
+  constructor(seed: number) {
+    this.state = seed >>> 0
+  }
+
+  // Float in [0, 1) - drop-in replacement for Math.random()
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0
+    let t = this.state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+
+  // Float in [min, max)
+  range(min: number, max: number): number {
+    return min + this.next() * (max - min)
+  }
+
+  // Integer in [min, max]
+  int(min: number, max: number): number {
+    return Math.floor(this.range(min, max + 1))
+  }
+
+  // True with the given probability (0-1)
+  chance(probability: number): boolean {
+    return this.next() < probability
+  }
+
+  // Internal state, for saving and restoring a stream mid-run
+  getState(): number {
+    return this.state
+  }
+
+  setState(state: number): void {
+    this.state = state >>> 0
+  }
+}
+
+// Owns the world seed and hands out named streams
+export class RandomService {
+  private worldSeed: number
+  private streams = new Map<RandomStreamName, RandomStream>()
+
+  constructor(seed = RandomService.randomSeed()) {
+    this.worldSeed = seed >>> 0
+  }
+
+  // Unseeded fallback - log world.random.seed to reproduce a session
+  static randomSeed(): number {
+    return Math.floor(Math.random() * 4294967296)
+  }
+
+  get seed(): number {
+    return this.worldSeed
+  }
+
+  stream(name: RandomStreamName): RandomStream {
+    let stream = this.streams.get(name)
+    if (!stream) {
+      stream = new RandomStream(deriveSeed(this.worldSeed, name))
+      this.streams.set(name, stream)
+    }
+    return stream
+  }
+
+  // Restart every stream from a new seed
+  reseed(seed: number): void {
+    this.worldSeed = seed >>> 0
+    this.streams.clear()
+  }
+
+  // Stream states by name, for snapshots
+  getStates(): Partial<Record<RandomStreamName, number>> {
+    const states: Partial<Record<RandomStreamName, number>> = {}
+    this.streams.forEach((stream, name) => {
+      states[name] = stream.getState()
+    })
+    return states
+  }
+
+  setStates(states: Partial<Record<RandomStreamName, number>>): void {
+    Object.entries(states).forEach(([name, state]) => {
+      if (state !== undefined) this.stream(name as RandomStreamName).setState(state)
+    })
+  }
+}
+
+// Mix the world seed with the stream name (FNV-1a) so streams don't correlate
+function deriveSeed(seed: number, name: string): number {
+  let hash = 0x811c9dc5 ^ seed
+  for (let i = 0; i < name.length; i++) {
+    hash ^= name.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
@@ -0,0 +1,143 @@
+// System Scheduler - resolves the order systems run in each update
+// Systems declare a phase, a priority and runAfter/runBefore constraints;
+// the scheduler orders phases, then sorts each phase topologically
+import type { System, SystemPhase } from './ECS'
+
+// Phases always run in this order
+export const SYSTEM_PHASES: readonly SystemPhase[] = [
+  'input',
+  'simulation',
+  'physics',
+  'postPhysics',
+  'presentation'
+]
+
+// Thrown when constraints contradict each other
+export class SchedulingError extends Error {
+  readonly cycle: string[] // System names forming the cycle (empty for phase conflicts)
+
+  constructor(message: string, cycle: string[] = []) {
+    super(message)
+    this.name = 'SchedulingError'
+    this.cycle = cycle
+  }
+}
+
+// Return systems in execution order. Within a phase, systems with no ordering
+// constraint between them run by priority (lower first), then registration order.
+// Constraints naming systems that aren't registered are ignored.
+export function scheduleSystems(systems: readonly System[]): System[] {
+  const byName = new Map<string, System>()
+  systems.forEach(system => {
+    if (byName.has(system.name)) {
+      throw new SchedulingError(`Duplicate system name: ${system.name}`)
+    }
+    byName.set(system.name, system)
+  })
+
+  // Edges: name -> names that must run after it
+  const successors = new Map<string, Set<string>>()
+  systems.forEach(system => successors.set(system.name, new Set()))
+
+  const addEdge = (before: System, after: System) => {
+    const beforePhase = SYSTEM_PHASES.indexOf(before.phase)
+    const afterPhase = SYSTEM_PHASES.indexOf(after.phase)
+    if (beforePhase > afterPhase) {
+      throw new SchedulingError(
+        `${after.name} (${after.phase}) cannot run after ${before.name} (${before.phase})`
+      )
+    }
+    // Constraints across phases are already satisfied by phase order
+    if (beforePhase === afterPhase) {
+      successors.get(before.name)!.add(after.name)
+    }
+  }
+
+  systems.forEach(system => {
+    system.runAfter.forEach(name => {
+      const other = byName.get(name)
+      if (other) addEdge(other, system)
+    })
+    system.runBefore.forEach(name => {
+      const other = byName.get(name)
+      if (other) addEdge(system, other)
+    })
+  })
+
+  const registrationIndex = new Map(systems.map((system, index) => [system.name, index]))
+  const compare = (a: System, b: System) =>
+    a.priority - b.priority || registrationIndex.get(a.name)! - registrationIndex.get(b.name)!
+
+  const ordered: System[] = []
+  SYSTEM_PHASES.forEach(phase => {
+    const phaseSystems = systems.filter(system => system.phase === phase)
+    ordered.push(...sortPhase(phaseSystems, successors, compare))
+  })
+  return ordered
+}
+
+// Kahn's algorithm, always picking the best-ranked ready system
+function sortPhase(
+  systems: System[],
+  successors: Map<string, Set<string>>,
+  compare: (a: System, b: System) => number
+): System[] {
+  const inDegree = new Map(systems.map(system => [system.name, 0]))
+  systems.forEach(system => {
+    successors.get(system.name)!.forEach(name => {
+      inDegree.set(name, inDegree.get(name)! + 1)
+    })
+  })
+
+  const byName = new Map(systems.map(system => [system.name, system]))
+  const ready = systems.filter(system => inDegree.get(system.name) === 0)
+  const result: System[] = []
+
+  while (ready.length > 0) {
+    ready.sort(compare)
+    const next = ready.shift()!
+    result.push(next)
+    successors.get(next.name)!.forEach(name => {
+      const degree = inDegree.get(name)! - 1
+      inDegree.set(name, degree)
+      if (degree === 0) ready.push(byName.get(name)!)
+    })
+  }
+
+  if (result.length < systems.length) {
+    const remaining = systems.filter(system => !result.includes(system)).map(system => system.name)
+    const cycle = findCycle(remaining, successors)
+    throw new SchedulingError(`System ordering cycle: ${cycle.join(' -> ')}`, cycle)
+  }
+
+  return result
+}
+
+// Depth-first search for one cycle among systems that could not be ordered
+function findCycle(names: string[], successors: Map<string, Set<string>>): string[] {
+  const candidates = new Set(names)
+  const path: string[] = []
+  const visited = new Set<string>()
+
+  const visit = (name: string): string[] | null => {
+    const index = path.indexOf(name)
+    if (index !== -1) return [...path.slice(index), name]
+    if (visited.has(name)) return null
+
+    visited.add(name)
+    path.push(name)
+    for (const next of successors.get(name)!) {
+      if (!candidates.has(next)) continue
+      const cycle = visit(next)
+      if (cycle) return cycle
+    }
+    path.pop()
+    return null
+  }
+
+  for (const name of names) {
+    const cycle = visit(name)
+    if (cycle) return cycle
+  }
+  return names
+}
@@ -0,0 +1,94 @@
+// Simulation Clock - gameplay time owned by the ECS world
+// Advances only when the world runs a simulation step, so cooldowns and
+// timers freeze while paused, in headset menus or in a background tab
+
+export class SimulationClock {
+  private elapsed = 0
+  private tickCount = 0
+  private paused = false
+  private scale = 1
+  private pendingSteps = 0
+
+  // Simulated seconds since the world started
+  get time(): number {
+    return this.elapsed
+  }
+
+  // Number of simulation steps run so far
+  get tick(): number {
+    return this.tickCount
+  }
+
+  get isPaused(): boolean {
+    return this.paused
+  }
+
+  // Multiplier applied to real frame time (0.5 = half speed)
+  get timeScale(): number {
+    return this.scale
+  }
+
+  pause(): void {
+    this.paused = true
+  }
+
+  resume(): void {
+    this.paused = false
+    this.pendingSteps = 0
+  }
+
+  setTimeScale(scale: number): void {
+    this.scale = Math.max(0, scale)
+  }
+
+  // Request single steps to run on the next frame (used while paused)
+  stepOnce(count = 1): void {
+    this.pendingSteps += count
+  }
+
+  // Convert a real frame delta into simulation time to accumulate
+  scaleFrameDelta(frameDelta: number): number {
+    return this.paused ? 0 : frameDelta * this.scale
+  }
+
+  // Take one pending single-step request, if any
+  consumeStep(): boolean {
+    if (this.pendingSteps <= 0) return false
+    this.pendingSteps--
+    return true
+  }
+
+  // Called by the world at the start of every simulation step
+  advance(stepSize: number): void {
+    this.elapsed += stepSize
+    this.tickCount++
+  }
+
+  // Jump to a saved point in simulation time (used when loading snapshots)
+  restore(time: number, tick: number): void {
+    this.elapsed = time
+    this.tickCount = tick
+    this.pendingSteps = 0
+  }
+
+  reset(): void {
+    this.restore(0, 0)
+  }
+}
+
+export interface TimeControl {
+  paused: boolean
+  timeScale: number
+  steps: number // Single steps to run (while paused)
+}
+
+// Apply pause/slow-motion/step settings coming from the UI (or the worker protocol)
+export function applyTimeControl(clock: SimulationClock, { paused, timeScale, steps }: TimeControl): void {
+  if (paused) {
+    clock.pause()
+  } else if (clock.isPaused) {
+    clock.resume()
+  }
+  clock.setTimeScale(timeScale)
+  if (steps > 0) clock.stepOnce(steps)
+}
@@ -1,17 +1,16 @@
 // Skill System for casting spells and abilities
-import { System, Entity } from './ECS'
-import type { 
-  TransformComponent,
-  CombatStatsComponent,
-  FactionComponent
-} from './CombatComponents'
-import { 
-  createProjectileComponent
-} from './ProjectileSystem'
-import {
-  createTransformComponent
-} from './CombatComponents'
+import { System, Entity, ECSWorld, Query } from './ECS'
+import type { EntityId } from './ECS'
+import type { ProjectileSystem } from './ProjectileSystem'
+import { hostileFactionsOf } from './CombatComponents'
+import type { DamageValues } from './CombatComponents'
+import { applyDamage, applyHealing, scaleDamage } from './Damage'
+import { LIVING_TARGETS, isAliveHostile } from './Tags'
+import type { AilmentChance } from './Ailments'
 import * as THREE from 'three'
+import { logger } from '../utils/Logger'
+
+const log = logger.for('skills')
 
 export interface SkillDefinition {
   id: string
@@ -19,7 +18,10 @@ export interface SkillDefinition {
   type: 'projectile' | 'area' | 'self' | 'target'
   manaCost: number
   cooldown: number
-  damage: number
+  damage: DamageValues // Damage per type, e.g. { physical: 7, fire: 28 }
+  penetration?: DamageValues // Percent of target resistance ignored, per type
+  ailments?: AilmentChance[] // Status effects each hit may inflict
+  healing?: number
   range: number
   effectRadius?: number
   projectileSpeed?: number
@@ -34,7 +36,8 @@ export const SKILLS: Record<string, SkillDefinition> = {
     type: 'projectile',
     manaCost: 20,
     cooldown: 2.0,
-    damage: 35,
+    damage: { physical: 7, fire: 28 },
+    ailments: [{ type: 'burn', chance: 0.5, duration: 4, magnitude: 0.25 }],
     range: 15,
     effectRadius: 3,
     projectileSpeed: 8,
@@ -46,7 +49,11 @@ export const SKILLS: Record<string, SkillDefinition> = {
     type: 'projectile',
     manaCost: 15,
     cooldown: 1.5,
-    damage: 25,
+    damage: { cold: 25 },
+    ailments: [
+      { type: 'chill', chance: 1, duration: 2, magnitude: 0.3 },
+      { type: 'freeze', chance: 0.2, duration: 1, magnitude: 1 }
+    ],
     range: 12,
     projectileSpeed: 12,
     projectileType: 'iceShard'
@@ -57,7 +64,9 @@ export const SKILLS: Record<string, SkillDefinition> = {
     type: 'projectile',
     manaCost: 25,
     cooldown: 1.0,
-    damage: 40,
+    damage: { lightning: 40 },
+    penetration: { lightning: 15 },
+    ailments: [{ type: 'shock', chance: 0.5, duration: 4, magnitude: 0.2 }],
     range: 20,
     projectileSpeed: 20,
     projectileType: 'lightning'
@@ -68,75 +77,135 @@ export const SKILLS: Record<string, SkillDefinition> = {
     type: 'self',
     manaCost: 30,
     cooldown: 3.0,
-    damage: -50, // Negative damage = healing
+    damage: {},
+    healing: 50,
     range: 0
   }
 }
 
+// Why a cast didn't happen
+export type CastFailure =
+  | 'unknownSkill'
+  | 'noCaster'
+  | 'unavailable'       // No skill or projectile system to cast through
+  | 'dead'
+  | 'incapacitated'     // Stunned or frozen
+  | 'noTarget'
+  | 'onCooldown'
+  | 'missingComponents'
+  | 'outOfRange'
+  | 'notEnoughMana'
+
+export type CastResult = { ok: true } | { ok: false; reason: CastFailure }
+
+// Publish a failed cast (skillFailed) and return it as a CastResult
+export function castFailed(world: ECSWorld, caster: EntityId, skillId: string, reason: CastFailure): CastResult {
+  world.events.emit('skillFailed', { caster, skillId, reason })
+  return { ok: false, reason }
+}
+
+// Scratch vector for projectile launches
+const startPosition = new THREE.Vector3()
+
 export interface SkillCooldown {
   skillId: string
-  lastUsedTime: number
+  lastUsedTime: number // Simulation time (ECSWorld.clock.time)
 }
 
 export class SkillSystem extends System {
+  readonly name = 'skills'
+  readonly runAfter = ['playerCombat']
+
   private skillCooldowns = new Map<string, SkillCooldown[]>() // EntityId -> Cooldowns
-  public ecsWorld: any // Will be set by the component
+  private projectileSystem: ProjectileSystem | null = null
+  private positioned!: Query
+  private factionTargets!: Query<typeof LIVING_TARGETS.with>
+
+  attach(world: ECSWorld): void {
+    super.attach(world)
+    this.positioned = world.query({ with: ['transform'] })
+    this.factionTargets = world.query(LIVING_TARGETS)
+  }
 
-  setECSWorld(world: any) {
-    this.ecsWorld = world
+  setProjectileSystem(projectileSystem: ProjectileSystem) {
+    this.projectileSystem = projectileSystem
   }
 
-  // Cast a skill from caster to target position
-  castSkill(casterId: string, skillId: string, targetPosition: THREE.Vector3, entities: Entity[]): boolean {
+  // Snapshot support - cooldowns are stored as [entityId, cooldowns] pairs
+  saveState(): unknown {
+    return Array.from(this.skillCooldowns.entries())
+  }
+
+  loadState(state: unknown): void {
+    this.skillCooldowns = new Map(state as Array<[string, SkillCooldown[]]>)
+  }
+
+  // Cast a skill from caster to target position, paying its mana cost
+  castSkill(casterId: string, skillId: string, targetPosition: THREE.Vector3): CastResult {
     const skill = SKILLS[skillId]
     if (!skill) {
-      console.log(`Unknown skill: ${skillId}`)
-      return false
+      log.warn(`Unknown skill: ${skillId}`)
+      return castFailed(this.world, casterId, skillId, 'unknownSkill')
     }
 
-    const caster = entities.find(e => e.id === casterId)
+    const caster = this.world.getEntity(casterId)
     if (!caster) {
-      console.log(`Caster not found: ${casterId}`)
-      return false
+      log.warn(`Caster not found: ${casterId}`)
+      return castFailed(this.world, casterId, skillId, 'noCaster')
+    }
+
+    // Nothing is charged for a skill that has no way to execute
+    if (!this.canExecute(skill)) {
+      log.warn(`Projectile system not available for ${skill.name}`)
+      return castFailed(this.world, casterId, skillId, 'unavailable')
     }
 
     // Check cooldown
     if (!this.isSkillReady(casterId, skillId)) {
-      console.log(`Skill ${skill.name} on cooldown`)
-      return false
+      log.info(`Skill ${skill.name} on cooldown`)
+      return castFailed(this.world, casterId, skillId, 'onCooldown')
     }
 
-    const casterTransform = caster.getComponent<TransformComponent>('transform')
-    const casterStats = caster.getComponent<CombatStatsComponent>('combatStats')
-    const casterFaction = caster.getComponent<FactionComponent>('faction')
+    const casterTransform = caster.getComponent('transform')
+    const casterStats = caster.getComponent('combatStats')
+    const casterFaction = caster.getComponent('faction')
 
     if (!casterTransform || !casterStats || !casterFaction) {
-      console.log(`Caster missing required components`)
-      return false
+      log.warn(`Caster missing required components`)
+      return castFailed(this.world, casterId, skillId, 'missingComponents')
     }
 
     // Check range
     const distance = casterTransform.position.distanceTo(targetPosition)
     if (distance > skill.range) {
-      console.log(`Target out of range: ${distance.toFixed(1)} > ${skill.range}`)
-      return false
+      log.info(`Target out of range: ${distance.toFixed(1)} > ${skill.range}`)
+      return castFailed(this.world, casterId, skillId, 'outOfRange')
     }
 
-    // TODO: Check mana cost when we implement mana system
+    // Check mana (casters without a mana pool cast for free)
+    const mana = caster.getComponent('mana')
+    if (mana && mana.current < skill.manaCost) {
+      log.info(`Not enough mana for ${skill.name}: ${Math.floor(mana.current)} < ${skill.manaCost}`)
+      return castFailed(this.world, casterId, skillId, 'notEnoughMana')
+    }
+    if (mana) mana.current -= skill.manaCost
 
     // Cast the skill
-    console.log(`${caster.id} casts ${skill.name}!`)
-    this.executeSkill(caster, skill, targetPosition, entities)
+    this.world.events.emit('skillCast', { caster: caster.id, skillId, targetPosition: targetPosition.clone() })
+    this.executeSkill(caster, skill, targetPosition)
 
     // Set cooldown
     this.setSkillCooldown(casterId, skillId)
 
-    return true
+    return { ok: true }
   }
 
-  private executeSkill(caster: Entity, skill: SkillDefinition, targetPosition: THREE.Vector3, entities: Entity[]) {
-    const casterTransform = caster.getComponent<TransformComponent>('transform')!
-    const casterFaction = caster.getComponent<FactionComponent>('faction')!
+  private canExecute(skill: SkillDefinition): boolean {
+    return skill.type !== 'projectile' || !!this.projectileSystem
+  }
+
+  private executeSkill(caster: Entity, skill: SkillDefinition, targetPosition: THREE.Vector3) {
+    const casterFaction = caster.getComponent('faction')!
 
     switch (skill.type) {
       case 'projectile':
@@ -144,103 +213,92 @@ export class SkillSystem extends System {
         break
 
       case 'area':
-        this.createAreaEffect(skill, targetPosition, casterFaction.faction, entities)
+        this.createAreaEffect(caster, skill, targetPosition, casterFaction.faction)
         break
 
       case 'self':
         this.applySelfEffect(caster, skill)
         break
 
-      case 'target':
+      case 'target': {
         // Find target entity at position
-        const target = this.findEntityAtPosition(targetPosition, entities)
+        const target = this.findEntityAtPosition(targetPosition)
         if (target) {
-          this.applyTargetEffect(target, skill)
+          this.applyTargetEffect(caster, target, skill)
         }
         break
+      }
     }
   }
 
   private createProjectile(caster: Entity, skill: SkillDefinition, targetPosition: THREE.Vector3, casterFaction: string) {
-    if (!this.ecsWorld) {
-      console.log('ECS World not set for SkillSystem')
-      return
-    }
+    if (!this.projectileSystem) return // Checked by canExecute
 
-    const casterTransform = caster.getComponent<TransformComponent>('transform')!
+    const casterTransform = caster.getComponent('transform')!
 
-    // Create projectile entity
-    const projectile = this.ecsWorld.createEntity(`projectile_${skill.id}_${Date.now()}`)
+    // Start slightly above the caster's position
+    startPosition.copy(casterTransform.position)
+    startPosition.y += 0.5
 
-    // Add transform component (starting at caster position)
-    const startPosition = casterTransform.position.clone()
-    startPosition.y += 0.5 // Slightly above ground
-    projectile.addComponent(createTransformComponent(startPosition))
-
-    // Add projectile component
-    const projectileComp = createProjectileComponent(
-      skill.damage,
-      skill.projectileSpeed || 10,
+    // Projectile entities are recycled (joins the world at the next sync point)
+    this.projectileSystem.spawnProjectile(startPosition, {
+      damage: skill.damage,
+      speed: skill.projectileSpeed || 10,
       targetPosition,
       casterFaction,
-      skill.range,
-      skill.effectRadius ? 'explosion' : 'none',
-      skill.effectRadius
-    )
-    projectile.addComponent(projectileComp)
-
-    console.log(`Created ${skill.projectileType} projectile`)
+      maxRange: skill.range,
+      onHitEffect: skill.effectRadius ? 'explosion' : 'none',
+      effectRadius: skill.effectRadius,
+      projectileType: skill.projectileType,
+      casterId: caster.id,
+      penetration: skill.penetration,
+      ailments: skill.ailments
+    }, `projectile_${skill.id}`)
   }
 
-  private createAreaEffect(skill: SkillDefinition, targetPosition: THREE.Vector3, casterFaction: string, entities: Entity[]) {
-    console.log(`Area effect ${skill.name} at position`)
-    
-    // Apply damage to all entities in radius
-    entities.forEach(entity => {
-      const entityTransform = entity.getComponent<TransformComponent>('transform')
-      const entityFaction = entity.getComponent<FactionComponent>('faction')
-      
-      if (!entityTransform || !entityFaction) return
-      if (entityFaction.faction === casterFaction) return // Don't hit allies
+  private createAreaEffect(caster: Entity, skill: SkillDefinition, targetPosition: THREE.Vector3, casterFaction: string) {
+    const hostileFactions = hostileFactionsOf(casterFaction)
+
+    // Apply damage to all living hostile entities in radius
+    this.factionTargets.forEach((entity, [entityTransform]) => {
+      if (!isAliveHostile(entity, hostileFactions)) return // Don't hit allies or the dead
 
       const distance = entityTransform.position.distanceTo(targetPosition)
       if (distance <= (skill.effectRadius || 2)) {
         // Apply damage with falloff
         const damageMultiplier = 1.0 - (distance / (skill.effectRadius || 2))
-        const damage = Math.floor(skill.damage * damageMultiplier)
-        
-        const entityHealth = entity.getComponent('health') as any
-        if (entityHealth) {
-          entityHealth.current -= damage
-          console.log(`Area damage: ${damage} to ${entity.id}`)
-        }
+        const damage = scaleDamage(skill.damage, damageMultiplier)
+
+        applyDamage(this.world, entity, {
+          source: caster.id,
+          kind: 'spell',
+          damage,
+          penetration: skill.penetration,
+          ailments: skill.ailments
+        })
       }
     })
   }
 
   private applySelfEffect(caster: Entity, skill: SkillDefinition) {
-    if (skill.id === 'heal') {
-      const casterHealth = caster.getComponent('health') as any
-      if (casterHealth) {
-        const healAmount = Math.abs(skill.damage)
-        casterHealth.current = Math.min(casterHealth.current + healAmount, casterHealth.maximum)
-        console.log(`Healed ${caster.id} for ${healAmount} HP`)
-      }
+    if (skill.healing) {
+      applyHealing(this.world, caster, caster, skill.healing)
     }
   }
 
-  private applyTargetEffect(target: Entity, skill: SkillDefinition) {
-    const targetHealth = target.getComponent('health') as any
-    if (targetHealth) {
-      targetHealth.current -= skill.damage
-      console.log(`Direct damage: ${skill.damage} to ${target.id}`)
-    }
+  private applyTargetEffect(caster: Entity, target: Entity, skill: SkillDefinition) {
+    applyDamage(this.world, target, {
+      source: caster.id,
+      kind: 'spell',
+      damage: skill.damage,
+      penetration: skill.penetration,
+      ailments: skill.ailments
+    })
   }
 
-  private findEntityAtPosition(position: THREE.Vector3, entities: Entity[]): Entity | null {
-    for (const entity of entities) {
-      const transform = entity.getComponent<TransformComponent>('transform')
-      if (!transform) continue
+  private findEntityAtPosition(position: THREE.Vector3): Entity | null {
+    for (const entity of this.positioned.entities) {
+      const transform = entity.getComponent('transform')!
 
       const distance = transform.position.distanceTo(position)
       if (distance < 1.0) {
@@ -257,17 +315,17 @@ export class SkillSystem extends System {
     if (!skillCooldown) return true
 
     const skill = SKILLS[skillId]
-    const currentTime = Date.now() / 1000
+    const currentTime = this.world.clock.time
     return (currentTime - skillCooldown.lastUsedTime) >= skill.cooldown
   }
 
   private setSkillCooldown(entityId: string, skillId: string) {
-    let cooldowns = this.skillCooldowns.get(entityId) || []
+    const cooldowns = this.skillCooldowns.get(entityId) || []
     
     const existingIndex = cooldowns.findIndex(cd => cd.skillId === skillId)
     const newCooldown: SkillCooldown = {
       skillId,
-      lastUsedTime: Date.now() / 1000
+      lastUsedTime: this.world.clock.time
     }
 
     if (existingIndex >= 0) {
@@ -279,7 +337,7 @@ export class SkillSystem extends System {
     this.skillCooldowns.set(entityId, cooldowns)
   }
 
-  update(entities: Entity[], deltaTime: number): void {
+  update(): void {
     // Skill system doesn't need regular updates
     // Skills are cast on-demand via castSkill method
   }
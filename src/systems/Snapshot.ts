@@ -0,0 +1,192 @@
+// World Snapshots - versioned JSON save/load for ECSWorld
+// Captures every simulation component (Three.js math types are encoded
+// explicitly), simulation time, RNG stream states and system-internal state.
+// Render-only components are skipped; renderers re-attach them after a load.
+import * as THREE from 'three'
+import type { ECSWorld, Entity, EntityId, ComponentType, RegisteredComponent } from './ECS'
+import type { RandomStreamName } from './Random'
+
+// Bump when the format changes incompatibly
+export const SNAPSHOT_VERSION = 1
+
+// Components that hold live render objects and are never serialized
+export const RENDER_ONLY_COMPONENTS: readonly ComponentType[] = ['mesh']
+
+// JSON-safe value
+export type SnapshotValue =
+  | null
+  | boolean
+  | number
+  | string
+  | SnapshotValue[]
+  | { [key: string]: SnapshotValue }
+
+export interface EntitySnapshot {
+  id: EntityId
+  components: Array<{ [key: string]: SnapshotValue }>
+}
+
+export interface WorldSnapshot {
+  version: number
+  seed: number
+  time: number
+  tick: number
+  randomStates: Partial<Record<RandomStreamName, number>>
+  entities: EntitySnapshot[]
+  systems: Record<string, SnapshotValue> // System name -> saveState() output
+}
+
+export class SnapshotError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SnapshotError'
+  }
+}
+
+// Capture the full simulation state of a world
+export function createSnapshot(world: ECSWorld): WorldSnapshot {
+  const entities = world.getAllEntities().map(snapshotEntity)
+
+  const systems: Record<string, SnapshotValue> = {}
+  world.getSystems().forEach(system => {
+    if (system.saveState) {
+      systems[system.name] = encodeValue(system.saveState(), system.name)
+    }
+  })
+
+  return {
+    version: SNAPSHOT_VERSION,
+    seed: world.random.seed,
+    time: world.clock.time,
+    tick: world.clock.tick,
+    randomStates: world.random.getStates(),
+    entities,
+    systems
+  }
+}
+
+// Restore a snapshot into an existing world in place. Entities missing from
+// the snapshot are removed, existing ones keep their render-only components
+// (so React visuals stay attached) and new ones are created. Entities and
+// queries end up in snapshot order, so systems iterate exactly as they did
+// when the snapshot was taken. If the snapshot can't be applied the world is
+// put back as it was and the error rethrown.
+export function restoreSnapshot(world: ECSWorld, snapshot: WorldSnapshot): void {
+  if (snapshot.version !== SNAPSHOT_VERSION) {
+    throw new SnapshotError(`Unsupported snapshot version ${snapshot.version} (expected ${SNAPSHOT_VERSION})`)
+  }
+
+  const previous = createSnapshot(world)
+  try {
+    applySnapshot(world, snapshot)
+  } catch (error) {
+    applySnapshot(world, previous)
+    throw error
+  }
+}
+
+function applySnapshot(world: ECSWorld, snapshot: WorldSnapshot): void {
+  world.commands.clear()
+  world.timestep.reset()
+  world.clock.restore(snapshot.time, snapshot.tick)
+  world.random.reseed(snapshot.seed)
+  world.random.setStates(snapshot.randomStates)
+
+  const snapshotIds = new Set(snapshot.entities.map(entity => entity.id))
+  world.getAllEntities()
+    .filter(entity => !snapshotIds.has(entity.id))
+    .forEach(entity => world.removeEntity(entity.id))
+
+  snapshot.entities.forEach(entitySnapshot => restoreEntity(world, entitySnapshot))
+  world.reorderEntities(snapshot.entities.map(entity => entity.id))
+
+  world.getSystems().forEach(system => {
+    if (system.loadState && system.name in snapshot.systems) {
+      system.loadState(decodeValue(snapshot.systems[system.name]))
+    }
+  })
+}
+
+// Capture one entity's simulation components
+export function snapshotEntity(entity: Entity): EntitySnapshot {
+  return {
+    id: entity.id,
+    components: entity.getAllComponents()
+      .filter(component => !RENDER_ONLY_COMPONENTS.includes(component.type))
+      .map(component => encodeValue(component, `${entity.id}.${component.type}`) as { [key: string]: SnapshotValue })
+  }
+}
+
+// Create or update one entity from a snapshot, keeping its render-only components
+export function restoreEntity(world: ECSWorld, entitySnapshot: EntitySnapshot): Entity {
+  const entity = world.getEntity(entitySnapshot.id) || world.createEntity(entitySnapshot.id)
+  const components = entitySnapshot.components.map(data => decodeValue(data) as RegisteredComponent)
+  const restoredTypes = new Set(components.map(component => component.type))
+
+  entity.getAllComponents()
+    .filter(component => !RENDER_ONLY_COMPONENTS.includes(component.type) && !restoredTypes.has(component.type))
+    .forEach(component => entity.removeComponent(component.type))
+  components.forEach(component => entity.addComponent(component))
+  return entity
+}
+
+export function serializeSnapshot(snapshot: WorldSnapshot): string {
+  return JSON.stringify(snapshot)
+}
+
+export function parseSnapshot(json: string): WorldSnapshot {
+  const snapshot = JSON.parse(json) as WorldSnapshot
+  if (typeof snapshot?.version !== 'number' || !Array.isArray(snapshot.entities)) {
+    throw new SnapshotError('Not a world snapshot')
+  }
+  return snapshot
+}
+
+// Encode plain data plus Three.js math types into JSON-safe values
+export function encodeValue(value: unknown, path: string): SnapshotValue {
+  if (value === null || value === undefined) return null
+  if (typeof value === 'boolean' || typeof value === 'string') return value
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : { $number: String(value) }
+  }
+  if (value instanceof THREE.Vector3) {
+    return { $vector3: [value.x, value.y, value.z] }
+  }
+  if (value instanceof THREE.Euler) {
+    return { $euler: [value.x, value.y, value.z, value.order] }
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, index) => encodeValue(item, `${path}[${index}]`))
+  }
+  if (typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    const encoded: { [key: string]: SnapshotValue } = {}
+    Object.entries(value).forEach(([key, item]) => {
+      if (item !== undefined) encoded[key] = encodeValue(item, `${path}.${key}`)
+    })
+    return encoded
+  }
+  throw new SnapshotError(`Cannot serialize ${path}: unsupported value ${String(value)}`)
+}
+
+export function decodeValue(value: SnapshotValue): unknown {
+  if (Array.isArray(value)) return value.map(decodeValue)
+  if (value === null || typeof value !== 'object') return value
+
+  if ('$vector3' in value) {
+    const [x, y, z] = value.$vector3 as number[]
+    return new THREE.Vector3(x, y, z)
+  }
+  if ('$euler' in value) {
+    const [x, y, z, order] = value.$euler as [number, number, number, THREE.EulerOrder]
+    return new THREE.Euler(x, y, z, order)
+  }
+  if ('$number' in value) {
+    return Number(value.$number)
+  }
+
+  const decoded: Record<string, unknown> = {}
+  Object.entries(value).forEach(([key, item]) => {
+    decoded[key] = decodeValue(item)
+  })
+  return decoded
+}
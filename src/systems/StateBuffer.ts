@@ -0,0 +1,171 @@
+// State Buffer - compact per-frame view of the simulation for renderers
+// When the simulation runs in a Web Worker (see src/workers), the worker
+// packs the state that changes every step - positions, rotations, health,
+// mana, energy shield, visibility and movement - into a Float32Array that is transferred (not
+// copied) to the main thread and applied to a mirror ECSWorld there, so
+// render components keep reading ordinary components.
+//
+// Ailments are sent as flag bits only - the mirror knows which are active
+// (for indicators), not their strength or duration.
+//
+// Layout: a header, then one fixed-size record per entity with a transform.
+// Entity ids are not in the buffer; they are sent separately whenever the
+// set of entities changes, and record i belongs to ids[i]. The clock's tick
+// and time are sent alongside as plain numbers too - Float32 would lose their
+// precision in a long session.
+import type { ECSWorld, EntityId } from './ECS'
+import { createTag } from './Tags'
+import { AILMENT_TYPES, createAilmentsComponent, hasAilment } from './Ailments'
+import type { AilmentType } from './Ailments'
+
+// Header fields
+const HEADER_ALPHA = 0
+const HEADER_COUNT = 1
+export const STATE_HEADER_SIZE = 2
+
+// Record fields (offsets within one entity record)
+const POSITION = 0           // x, y, z
+const PREVIOUS_POSITION = 3  // x, y, z
+const ROTATION_Y = 6
+const PREVIOUS_ROTATION_Y = 7
+const HEALTH = 8
+const MAX_HEALTH = 9
+const FLAGS = 10
+const MOVE_TARGET = 11       // x, y, z - NaN when there is no move target
+const MANA = 14
+const MAX_MANA = 15
+const ENERGY_SHIELD = 16
+export const STATE_STRIDE = 17
+
+// Flag bits
+export const STATE_VISIBLE = 1 // Not dead
+export const STATE_MOVING = 2
+export const STATE_AILMENT_FLAGS: Record<AilmentType, number> = {
+  burn: 4,
+  chill: 8,
+  freeze: 16,
+  shock: 32
+}
+
+// Buffer large enough for the given number of entities
+export function createStateBuffer(entityCount: number): Float32Array {
+  return new Float32Array(STATE_HEADER_SIZE + entityCount * STATE_STRIDE)
+}
+
+// Entities that appear in the buffer, in record order
+export function stateBufferIds(world: ECSWorld): EntityId[] {
+  return world.query({ with: ['transform'] }).entities.map(entity => entity.id)
+}
+
+// Pack the world's current state. Reuses `buffer` when it is large enough,
+// otherwise returns a bigger one.
+export function writeStateBuffer(world: ECSWorld, ids: readonly EntityId[], buffer: Float32Array): Float32Array {
+  const needed = STATE_HEADER_SIZE + ids.length * STATE_STRIDE
+  const target = buffer.length >= needed ? buffer : createStateBuffer(Math.max(ids.length, 16) * 2)
+
+  target[HEADER_ALPHA] = world.interpolationAlpha
+  target[HEADER_COUNT] = ids.length
+
+  ids.forEach((id, index) => {
+    const entity = world.getEntity(id)
+    const transform = entity?.getComponent('transform')
+    if (!entity || !transform) return
+
+    const offset = STATE_HEADER_SIZE + index * STATE_STRIDE
+    const health = entity.getComponent('health')
+    const movement = entity.getComponent('movement')
+    const mana = entity.getComponent('mana')
+    const defence = entity.getComponent('defence')
+
+    target[offset + POSITION] = transform.position.x
+    target[offset + POSITION + 1] = transform.position.y
+    target[offset + POSITION + 2] = transform.position.z
+    target[offset + PREVIOUS_POSITION] = transform.previousPosition.x
+    target[offset + PREVIOUS_POSITION + 1] = transform.previousPosition.y
+    target[offset + PREVIOUS_POSITION + 2] = transform.previousPosition.z
+    target[offset + ROTATION_Y] = transform.rotation.y
+    target[offset + PREVIOUS_ROTATION_Y] = transform.previousRotation.y
+    target[offset + HEALTH] = health ? health.current : 0
+    target[offset + MAX_HEALTH] = health ? health.maximum : 0
+    target[offset + MANA] = mana ? mana.current : 0
+    target[offset + MAX_MANA] = mana ? mana.maximum : 0
+    target[offset + ENERGY_SHIELD] = defence ? defence.energyShield : 0
+    target[offset + FLAGS] =
+      (entity.hasComponent('dead') ? 0 : STATE_VISIBLE) |
+      (movement?.isMoving ? STATE_MOVING : 0) |
+      AILMENT_TYPES.reduce((bits, type) => hasAilment(entity, type) ? bits | STATE_AILMENT_FLAGS[type] : bits, 0)
+
+    const moveTarget = movement?.targetPosition
+    target[offset + MOVE_TARGET] = moveTarget ? moveTarget.x : NaN
+    target[offset + MOVE_TARGET + 1] = moveTarget ? moveTarget.y : NaN
+    target[offset + MOVE_TARGET + 2] = moveTarget ? moveTarget.z : NaN
+  })
+
+  return target
+}
+
+// Copy a packed state into a mirror world's components (the clock is restored separately)
+export function applyStateBuffer(world: ECSWorld, ids: readonly EntityId[], buffer: Float32Array): void {
+  world.timestep.setInterpolationAlpha(buffer[HEADER_ALPHA])
+
+  const count = Math.min(buffer[HEADER_COUNT], ids.length)
+  for (let index = 0; index < count; index++) {
+    const entity = world.getEntity(ids[index])
+    const transform = entity?.getComponent('transform')
+    if (!entity || !transform) continue
+
+    const offset = STATE_HEADER_SIZE + index * STATE_STRIDE
+    transform.position.set(buffer[offset + POSITION], buffer[offset + POSITION + 1], buffer[offset + POSITION + 2])
+    transform.previousPosition.set(
+      buffer[offset + PREVIOUS_POSITION],
+      buffer[offset + PREVIOUS_POSITION + 1],
+      buffer[offset + PREVIOUS_POSITION + 2]
+    )
+    transform.rotation.y = buffer[offset + ROTATION_Y]
+    transform.previousRotation.y = buffer[offset + PREVIOUS_ROTATION_Y]
+
+    const health = entity.getComponent('health')
+    if (health) {
+      health.current = buffer[offset + HEALTH]
+      health.maximum = buffer[offset + MAX_HEALTH]
+    }
+
+    const mana = entity.getComponent('mana')
+    if (mana) {
+      mana.current = buffer[offset + MANA]
+      mana.maximum = buffer[offset + MAX_MANA]
+    }
+
+    const defence = entity.getComponent('defence')
+    if (defence) defence.energyShield = buffer[offset + ENERGY_SHIELD]
+
+    const flags = buffer[offset + FLAGS]
+    const isDead = entity.hasComponent('dead')
+    if ((flags & STATE_VISIBLE) && isDead) entity.removeComponent('dead')
+    if (!(flags & STATE_VISIBLE) && !isDead) entity.addComponent(createTag('dead'))
+
+    const afflicted = AILMENT_TYPES.filter(type => flags & STATE_AILMENT_FLAGS[type])
+    const ailments = entity.getComponent('ailments')
+    if (ailments || afflicted.length > 0) {
+      const component = ailments || createAilmentsComponent()
+      component.active = afflicted.map(type =>
+        component.active.find(ailment => ailment.type === type) || { type, magnitude: 0, expiresAt: Infinity, source: null })
+      if (!ailments) entity.addComponent(component)
+    }
+
+    const movement = entity.getComponent('movement')
+    if (movement) {
+      movement.isMoving = (flags & STATE_MOVING) !== 0
+      const targetX = buffer[offset + MOVE_TARGET]
+      if (Number.isNaN(targetX)) {
+        movement.targetPosition = undefined
+      } else {
+        movement.targetPosition = (movement.targetPosition || transform.position.clone()).set(
+          targetX,
+          buffer[offset + MOVE_TARGET + 1],
+          buffer[offset + MOVE_TARGET + 2]
+        )
+      }
+    }
+  }
+}
@@ -1,5 +1,7 @@
 // Centralized System Manager
 // Manages all ECS systems to prevent duplicates and ensure proper initialization
+// Execution order is resolved by the world's scheduler from each system's
+// phase, priority and runAfter/runBefore declarations - not registration order
 
 import { ECSWorld, System } from './ECS'
 import { MonsterAISystem } from './MonsterAISystem'
@@ -7,11 +9,59 @@ import { PlayerCombatSystem } from './PlayerCombatSystem'
 import { SkillSystem } from './SkillSystem'
 import { ProjectileSystem } from './ProjectileSystem'
 import { CollisionSystem } from './CollisionSystem'
+import { TransformHistorySystem } from './TransformHistorySystem'
+import { InputSystem } from './InputSystem'
+import { PlayerMovementSystem } from './PlayerMovementSystem'
+import { HierarchySystem } from './HierarchySystem'
+import { AilmentSystem } from './AilmentSystem'
+import { ManaSystem } from './ManaSystem'
+import { DefenceSystem } from './DefenceSystem'
+import { logger } from '../utils/Logger'
+
+const log = logger.for('ecs')
+
+// Core gameplay systems - add new systems here
+export const CORE_SYSTEMS: Array<() => System> = [
+  () => new TransformHistorySystem(),
+  () => new InputSystem(),
+  () => new PlayerMovementSystem(),
+  () => new MonsterAISystem(),
+  () => new PlayerCombatSystem(),
+  () => new SkillSystem(),
+  () => new ProjectileSystem(),
+  () => new AilmentSystem(),
+  () => new ManaSystem(),
+  () => new DefenceSystem(),
+  () => new CollisionSystem(),
+  () => new HierarchySystem()
+]
+
+// Wire up cross-system references once the core systems are registered
+export function connectCoreSystems(world: ECSWorld): void {
+  // Player skills are cast through the skill system
+  const playerCombat = world.getSystem<PlayerCombatSystem>('playerCombat')
+  const skills = world.getSystem<SkillSystem>('skills')
+  if (playerCombat && skills) {
+    playerCombat.setSkillSystem(skills)
+  }
+
+  // Skill projectiles come from the projectile system's entity pool
+  const projectiles = world.getSystem<ProjectileSystem>('projectiles')
+  if (skills && projectiles) {
+    skills.setProjectileSystem(projectiles)
+  }
+}
+
+// Point every player-aware system at the player entity
+export function setPlayerEntity(world: ECSWorld, entityId: string): void {
+  world.getSystem<MonsterAISystem>('monsterAI')?.setPlayerEntity(entityId)
+  world.getSystem<InputSystem>('input')?.setPlayerEntity(entityId)
+  world.getSystem<PlayerMovementSystem>('playerMovement')?.setPlayerEntity(entityId)
+}
 
 export class SystemManager {
   private static instance: SystemManager | null = null
   private ecsWorld: ECSWorld
-  private systems: Map<string, System> = new Map()
   private initialized = false
 
   private constructor(ecsWorld: ECSWorld) {
@@ -29,69 +79,40 @@ export class SystemManager {
   initializeSystems(): void {
     if (this.initialized) return
 
-    console.log('Initializing ECS Systems...')
-
-    // Initialize Monster AI System
-    if (!this.systems.has('monsterAI')) {
-      const monsterAI = new MonsterAISystem()
-      this.systems.set('monsterAI', monsterAI)
-      this.ecsWorld.addSystem(monsterAI)
-      console.log('✓ Monster AI System initialized')
-    }
+    log.info('Initializing ECS Systems...')
 
-    // Initialize Player Combat System
-    if (!this.systems.has('playerCombat')) {
-      const playerCombat = new PlayerCombatSystem()
-      this.systems.set('playerCombat', playerCombat)
-      this.ecsWorld.addSystem(playerCombat)
-      console.log('✓ Player Combat System initialized')
-    }
+    CORE_SYSTEMS.forEach(createSystem => this.registerSystem(createSystem()))
+    connectCoreSystems(this.ecsWorld)
 
-    // Initialize Skill System
-    if (!this.systems.has('skills')) {
-      const skills = new SkillSystem()
-      this.systems.set('skills', skills)
-      this.ecsWorld.addSystem(skills)
-      console.log('✓ Skill System initialized')
-    }
-
-    // Initialize Projectile System
-    if (!this.systems.has('projectiles')) {
-      const projectiles = new ProjectileSystem()
-      this.systems.set('projectiles', projectiles)
-      this.ecsWorld.addSystem(projectiles)
-      console.log('✓ Projectile System initialized')
-    }
+    this.initialized = true
+    log.info(`All ECS Systems initialized successfully! Order: ${
+      this.ecsWorld.getSystems().map(system => system.name).join(' -> ')
+    }`)
+  }
 
-    // Initialize Collision System
-    if (!this.systems.has('collision')) {
-      const collision = new CollisionSystem()
-      this.systems.set('collision', collision)
-      this.ecsWorld.addSystem(collision)
-      console.log('✓ Collision System initialized')
-    }
+  // Register a system with the world (ignored if one with the same name exists)
+  registerSystem(system: System): void {
+    if (this.ecsWorld.getSystem(system.name)) return
 
-    this.initialized = true
-    console.log('All ECS Systems initialized successfully!')
+    this.ecsWorld.addSystem(system)
+    log.debug(`✓ ${system.name} system initialized (${system.phase})`)
   }
 
   // Get a specific system
   getSystem<T extends System>(systemName: string): T | null {
-    return this.systems.get(systemName) as T || null
+    return this.ecsWorld.getSystem<T>(systemName) || null
   }
 
   // Set player entity for systems that need it
   setPlayerEntity(entityId: string): void {
-    const monsterAI = this.getSystem<MonsterAISystem>('monsterAI')
-    if (monsterAI) {
-      monsterAI.setPlayerEntity(entityId)
-      console.log(`✓ Player entity ${entityId} registered with Monster AI`)
-    }
+    setPlayerEntity(this.ecsWorld, entityId)
+    log.info(`✓ Player entity ${entityId} registered with Monster AI, input and movement`)
   }
 
   // Reset systems (for cleanup)
   reset(): void {
-    this.systems.clear()
+    const systems = [...this.ecsWorld.getSystems()]
+    systems.forEach(system => this.ecsWorld.removeSystem(system))
     this.initialized = false
     SystemManager.instance = null
   }
@@ -0,0 +1,48 @@
+// Tag Components - zero-data markers used as query filters
+// e.g. world.query({ with: ['ai', 'transform'], without: ['dead', 'stunned'] })
+// Also home of the shared "alive hostile" rule used by AI, projectiles,
+// skills and targeting, so they can't disagree about who can be hit.
+import type { Component, Entity, QueryDescriptor } from './ECS'
+
+export type TagType = 'dead' | 'stunned' | 'frozen' | 'invulnerable' | 'boss'
+
+export interface TagComponent<T extends TagType = TagType> extends Component {
+  type: T
+}
+
+// Register tags with the ECS component registry
+declare module './ECS' {
+  interface ComponentRegistry {
+    dead: TagComponent<'dead'>                 // Added when health reaches 0, removed on respawn
+    stunned: TagComponent<'stunned'>           // Can't move, attack or cast
+    frozen: TagComponent<'frozen'>             // Like stunned, while the freeze ailment lasts
+    invulnerable: TagComponent<'invulnerable'> // Ignores all damage
+    boss: TagComponent<'boss'>                 // Boss-tier monster
+  }
+}
+
+export const createTag = <T extends TagType>(type: T): TagComponent<T> => ({ type })
+
+// Entities that can be hit at all - pair with isAliveHostile for faction checks
+export const LIVING_TARGETS = {
+  with: ['transform', 'health', 'faction'],
+  without: ['dead']
+} as const satisfies QueryDescriptor
+
+// Alive: not tagged dead and health above zero (the tag is applied at the
+// next command flush, the health check covers the rest of the current step)
+export function isAlive(entity: Entity): boolean {
+  const health = entity.getComponent('health')
+  return !!health && health.current > 0 && !entity.hasComponent('dead')
+}
+
+// Stunned or frozen - can't move, attack or cast
+export function isIncapacitated(entity: Entity): boolean {
+  return entity.hasComponent('stunned') || entity.hasComponent('frozen')
+}
+
+// Alive and belonging to one of the given hostile factions
+export function isAliveHostile(entity: Entity, hostileFactions: readonly string[]): boolean {
+  const faction = entity.getComponent('faction')
+  return !!faction && hostileFactions.includes(faction.faction) && isAlive(entity)
+}
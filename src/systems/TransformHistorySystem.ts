@@ -0,0 +1,24 @@
+// Transform History System - records where every transform was at the start
+// of each fixed step, so renderers can interpolate between simulation states
+import { System, ECSWorld, Query } from './ECS'
+import type { SystemPhase } from './ECS'
+
+export class TransformHistorySystem extends System {
+  readonly name = 'transformHistory'
+  readonly phase: SystemPhase = 'input'
+  readonly priority = -1000 // Before anything can move an entity this step
+
+  private transforms!: Query<readonly ['transform']>
+
+  attach(world: ECSWorld): void {
+    super.attach(world)
+    this.transforms = world.query({ with: ['transform'] })
+  }
+
+  update(): void {
+    this.transforms.forEach((_entity, [transform]) => {
+      transform.previousPosition.copy(transform.position)
+      transform.previousRotation.copy(transform.rotation)
+    })
+  }
+}
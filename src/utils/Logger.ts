@@ -0,0 +1,150 @@
+// Structured logging with categories and levels
+// Each category has a minimum level (or 'off') that can be changed at runtime,
+// e.g. from the headset's remote console: logger.setLevel('ai', 'debug').
+// Entries that pass the filter go to the console and to an in-memory ring
+// buffer that can be dumped to a file (F8) for bug reports.
+
+export type LogCategory = 'ai' | 'combat' | 'skills' | 'ecs' | 'xr'
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+export type LogThreshold = LogLevel | 'off'
+
+export const LOG_CATEGORIES: readonly LogCategory[] = ['ai', 'combat', 'skills', 'ecs', 'xr']
+
+const LEVEL_ORDER: Record<LogThreshold, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+  off: 4
+}
+
+const SETTINGS_KEY = 'logger.levels'
+const DEFAULT_BUFFER_SIZE = 1000
+
+export interface LogEntry {
+  time: number // Wall-clock milliseconds (Date.now)
+  category: LogCategory
+  level: LogLevel
+  message: string
+}
+
+// Logger bound to one category - const log = logger.for('combat')
+export interface CategoryLogger {
+  debug(message: string): void
+  info(message: string): void
+  warn(message: string): void
+  error(message: string): void
+}
+
+export class Logger {
+  private thresholds: Record<LogCategory, LogThreshold>
+  private buffer: LogEntry[] = []
+  private bufferStart = 0 // Index of the oldest entry once the buffer has wrapped
+  private bufferSize: number
+  consoleOutput = true
+
+  constructor(bufferSize = DEFAULT_BUFFER_SIZE) {
+    this.bufferSize = bufferSize
+    this.thresholds = { ai: 'info', combat: 'info', skills: 'info', ecs: 'info', xr: 'info' }
+    this.loadSettings()
+  }
+
+  for(category: LogCategory): CategoryLogger {
+    return {
+      debug: message => this.log(category, 'debug', message),
+      info: message => this.log(category, 'info', message),
+      warn: message => this.log(category, 'warn', message),
+      error: message => this.log(category, 'error', message)
+    }
+  }
+
+  // Set the minimum level for one category, or for all of them
+  setLevel(category: LogCategory | 'all', threshold: LogThreshold): void {
+    const categories = category === 'all' ? LOG_CATEGORIES : [category]
+    categories.forEach(name => {
+      this.thresholds[name] = threshold
+    })
+    this.saveSettings()
+  }
+
+  getLevel(category: LogCategory): LogThreshold {
+    return this.thresholds[category]
+  }
+
+  enable(category: LogCategory, threshold: LogLevel = 'info'): void {
+    this.setLevel(category, threshold)
+  }
+
+  disable(category: LogCategory): void {
+    this.setLevel(category, 'off')
+  }
+
+  isEnabled(category: LogCategory, level: LogLevel): boolean {
+    return LEVEL_ORDER[level] >= LEVEL_ORDER[this.thresholds[category]]
+  }
+
+  log(category: LogCategory, level: LogLevel, message: string): void {
+    if (!this.isEnabled(category, level)) return
+
+    const entry: LogEntry = { time: Date.now(), category, level, message }
+    this.record(entry)
+
+    if (this.consoleOutput) {
+      const line = `[${category}] ${message}`
+      switch (level) {
+        case 'debug': console.debug(line); break
+        case 'info': console.log(line); break
+        case 'warn': console.warn(line); break
+        case 'error': console.error(line); break
+      }
+    }
+  }
+
+  // Buffered entries, oldest first
+  getEntries(): LogEntry[] {
+    return [...this.buffer.slice(this.bufferStart), ...this.buffer.slice(0, this.bufferStart)]
+  }
+
+  clear(): void {
+    this.buffer = []
+    this.bufferStart = 0
+  }
+
+  // Buffered entries as plain text, one per line
+  dump(): string {
+    return this.getEntries()
+      .map(entry => `${new Date(entry.time).toISOString()} ${entry.level.toUpperCase()} [${entry.category}] ${entry.message}`)
+      .join('\n')
+  }
+
+  private record(entry: LogEntry): void {
+    if (this.buffer.length < this.bufferSize) {
+      this.buffer.push(entry)
+      return
+    }
+    this.buffer[this.bufferStart] = entry
+    this.bufferStart = (this.bufferStart + 1) % this.bufferSize
+  }
+
+  // Levels persist across reloads (handy on the headset); no-op outside the browser
+  private loadSettings(): void {
+    if (typeof localStorage === 'undefined') return
+    try {
+      const saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}') as Partial<Record<LogCategory, LogThreshold>>
+      LOG_CATEGORIES.forEach(category => {
+        const threshold = saved[category]
+        if (threshold && threshold in LEVEL_ORDER) this.thresholds[category] = threshold
+      })
+    } catch {
+      // Ignore unreadable settings and keep the defaults
+    }
+  }
+
+  private saveSettings(): void {
+    if (typeof localStorage === 'undefined') return
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(this.thresholds))
+  }
+}
+
+// Shared application logger
+export const logger = new Logger()
@@ -0,0 +1,30 @@
+// Browser file helpers for exporting/importing saves and recordings
+
+// Save text as a file download
+export function downloadTextFile(filename: string, text: string): void {
+  const type = filename.endsWith('.json') ? 'application/json' : 'text/plain'
+  const url = URL.createObjectURL(new Blob([text], { type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+// Let the user pick a text file; resolves with its contents (null if cancelled)
+export function openTextFile(accept = '.json'): Promise<string | null> {
+  return new Promise(resolve => {
+    const input = document.createElement('input')
+    input.type = 'file'
+    input.accept = accept
+    input.onchange = () => {
+      const file = input.files?.[0]
+      if (!file) {
+        resolve(null)
+        return
+      }
+      file.text().then(resolve, () => resolve(null))
+    }
+    input.click()
+  })
+}
@@ -0,0 +1,142 @@
+// Worker Simulation - main-thread side of the simulation worker
+// The ECS systems run in simulation.worker.ts; the main thread keeps a
+// mirror ECSWorld without systems that render components read as usual.
+// Entities spawned on the mirror (React components) are sent to the worker,
+// and each frame's state buffer, entity changes and gameplay events are
+// applied back onto the mirror.
+import { ECSWorld } from '../systems/ECS'
+import type { EntityId, ComponentType } from '../systems/ECS'
+import { restoreEntity, snapshotEntity, decodeValue } from '../systems/Snapshot'
+import { applyStateBuffer, createStateBuffer } from '../systems/StateBuffer'
+import type { GameplayEvents } from '../systems/GameplayEvents'
+import type { InputCommand } from '../systems/InputSystem'
+import type { SystemTiming } from '../systems/Profiler'
+import { applyTimeControl } from '../systems/SimulationClock'
+import type { TimeControl } from '../systems/SimulationClock'
+import { setComponentField } from '../systems/Inspection'
+import type { SimulationRequest, SimulationUpdate } from './protocol'
+import { logger } from '../utils/Logger'
+
+const log = logger.for('ecs')
+
+// Initial state buffer capacity (entities) - the worker grows it when needed
+const INITIAL_CAPACITY = 64
+
+export class WorkerSimulation {
+  readonly mirror: ECSWorld
+  timings: SystemTiming[] = [] // Latest per-system timings from the worker (see setProfiling)
+  private worker: Worker
+  private ids: EntityId[] = []
+  private buffer: Float32Array | null = createStateBuffer(INITIAL_CAPACITY) // null while the worker has it
+  private pendingDelta = 0
+  private pendingSpawns = new Set<EntityId>()
+  private applyingUpdate = false
+  private unsubscribers: Array<() => void>
+
+  constructor(
+    mirror: ECSWorld,
+    worker = new Worker(new URL('./simulation.worker.ts', import.meta.url), { type: 'module' })
+  ) {
+    this.mirror = mirror
+    this.worker = worker
+    this.worker.onmessage = (event: MessageEvent<SimulationUpdate>) => this.receive(event.data)
+    this.post({ kind: 'init', seed: mirror.random.seed })
+
+    // Forward entities created and removed on the main thread - spawns are
+    // sent at the next flush, once their components have been added
+    this.unsubscribers = [
+      mirror.on('entityCreated', ({ entity }) => {
+        if (!this.applyingUpdate) this.pendingSpawns.add(entity.id)
+      }),
+      mirror.on('entityRemoved', ({ entity }) => {
+        if (this.applyingUpdate) return
+        this.pendingSpawns.delete(entity.id)
+        this.post({ kind: 'remove', id: entity.id })
+      })
+    ]
+  }
+
+  input(command: InputCommand): void {
+    this.flushSpawns()
+    this.post({ kind: 'input', command })
+  }
+
+  // Point the worker's player-aware systems at the player entity
+  setPlayerEntity(id: EntityId): void {
+    this.post({ kind: 'setPlayer', id })
+  }
+
+  // Hand the frame delta to the worker. If it is still busy with the previous
+  // frame the delta is carried over, so slow frames never queue up.
+  advance(frameDelta: number): void {
+    this.pendingDelta += frameDelta
+    if (!this.buffer) return
+
+    this.flushSpawns()
+    const buffer = this.buffer
+    this.buffer = null
+    this.post({ kind: 'advance', frameDelta: this.pendingDelta, buffer }, [buffer.buffer])
+    this.pendingDelta = 0
+  }
+
+  // Pause, slow motion and single steps run in the worker's clock; the mirror
+  // keeps the same settings so the UI can read them
+  setTimeControl(control: TimeControl): void {
+    applyTimeControl(this.mirror.clock, { ...control, steps: 0 })
+    this.post({ kind: 'timeControl', ...control })
+  }
+
+  setProfiling(enabled: boolean): void {
+    this.mirror.profiler.enabled = enabled
+    this.post({ kind: 'profile', enabled })
+  }
+
+  // Edit a numeric field in the worker's world (and the mirror, so the change shows at once)
+  setField(id: EntityId, componentType: ComponentType, field: string, value: number): void {
+    setComponentField(this.mirror, id, componentType, field, value)
+    this.post({ kind: 'setField', id, componentType, field, value })
+  }
+
+  dispose(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe())
+    this.worker.terminate()
+  }
+
+  private flushSpawns(): void {
+    this.pendingSpawns.forEach(id => {
+      const entity = this.mirror.getEntity(id)
+      if (entity) this.post({ kind: 'spawn', entity: snapshotEntity(entity) })
+    })
+    this.pendingSpawns.clear()
+  }
+
+  private receive(update: SimulationUpdate): void {
+    if (update.kind === 'error') {
+      log.error(`Simulation worker: ${update.message}`)
+      this.buffer = this.buffer || createStateBuffer(INITIAL_CAPACITY) // The frame's buffer was lost
+      return
+    }
+
+    this.applyingUpdate = true
+    try {
+      update.removed.forEach(id => this.mirror.removeEntity(id))
+      update.spawned.forEach(entity => restoreEntity(this.mirror, entity))
+      if (update.ids) this.ids = update.ids
+      this.mirror.clock.restore(update.time, update.tick)
+      applyStateBuffer(this.mirror, this.ids, update.buffer)
+    } finally {
+      this.applyingUpdate = false
+    }
+    this.buffer = update.buffer
+    if (update.timings) this.timings = update.timings
+
+    // Replay the step's gameplay events on the mirror for UI and logging
+    update.events.forEach(({ type, payload }) => {
+      this.mirror.events.emit(type, decodeValue(payload) as GameplayEvents[typeof type])
+    })
+  }
+
+  private post(request: SimulationRequest, transfer: Transferable[] = []): void {
+    this.worker.postMessage(request, transfer)
+  }
+}
@@ -0,0 +1,41 @@
+// Messages between the main thread (WorkerSimulation) and the simulation worker
+// Entities travel as snapshot data (see Snapshot.ts); per-frame state travels
+// in a transferable state buffer (see StateBuffer.ts) that bounces between
+// the two threads, so steady-state frames allocate no new buffers.
+import type { EntityId, ComponentType } from '../systems/ECS'
+import type { EntitySnapshot, SnapshotValue } from '../systems/Snapshot'
+import type { GameplayEvents } from '../systems/GameplayEvents'
+import type { InputCommand } from '../systems/InputSystem'
+import type { SystemTiming } from '../systems/Profiler'
+
+// Main thread -> worker
+export type SimulationRequest =
+  | { kind: 'init'; seed: number }
+  | { kind: 'spawn'; entity: EntitySnapshot } // Entity created on the main thread (e.g. by a React component)
+  | { kind: 'remove'; id: EntityId }
+  | { kind: 'input'; command: InputCommand }
+  | { kind: 'setPlayer'; id: EntityId } // Player entity for the AI, input and movement systems
+  | { kind: 'advance'; frameDelta: number; buffer: Float32Array } // Buffer is transferred
+  | { kind: 'timeControl'; paused: boolean; timeScale: number; steps: number } // Pause, slow motion, single steps
+  | { kind: 'profile'; enabled: boolean }
+  | { kind: 'setField'; id: EntityId; componentType: ComponentType; field: string; value: number } // Inspector edits
+
+export interface ForwardedEvent {
+  type: keyof GameplayEvents
+  payload: SnapshotValue
+}
+
+// Worker -> main thread
+export type SimulationUpdate =
+  | {
+      kind: 'state'
+      buffer: Float32Array          // Transferred back - return it with the next advance
+      tick: number                  // Simulation clock after the advance
+      time: number
+      ids?: EntityId[]              // Record order, only sent when it changed
+      removed: EntityId[]           // Entities removed since the last update
+      spawned: EntitySnapshot[]     // Entities created since the last update
+      events: ForwardedEvent[]      // Gameplay events, in the order they were published
+      timings?: SystemTiming[]      // Per-system timings while profiling is enabled
+    }
+  | { kind: 'error'; message: string }
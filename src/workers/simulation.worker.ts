@@ -0,0 +1,115 @@
+// Simulation Worker - hosts the ECS world and core systems off the main thread
+// The main thread (WorkerSimulation) posts spawns, removals, player input and
+// frame deltas; after each advance the worker answers with the packed state,
+// the entities that appeared or disappeared and the gameplay events published.
+import { ECSWorld } from '../systems/ECS'
+import type { EntityId } from '../systems/ECS'
+import { CORE_SYSTEMS, connectCoreSystems, setPlayerEntity } from '../systems/SystemManager'
+import { restoreEntity, snapshotEntity, encodeValue } from '../systems/Snapshot'
+import { stateBufferIds, writeStateBuffer } from '../systems/StateBuffer'
+import { GAMEPLAY_EVENT_TYPES } from '../systems/GameplayEvents'
+import { setComponentField } from '../systems/Inspection'
+import { applyTimeControl } from '../systems/SimulationClock'
+import type { InputSystem } from '../systems/InputSystem'
+import type { ForwardedEvent, SimulationRequest, SimulationUpdate } from './protocol'
+
+let world: ECSWorld | null = null
+let ids: EntityId[] = []
+let spawned = new Set<EntityId>()
+let removed: EntityId[] = []
+let events: ForwardedEvent[] = []
+
+function init(seed: number): void {
+  world = new ECSWorld({ seed })
+  CORE_SYSTEMS.forEach(createSystem => world!.addSystem(createSystem()))
+  connectCoreSystems(world)
+
+  // Entities are encoded when the next update is sent, once their components are in place
+  world.on('entityCreated', ({ entity }) => spawned.add(entity.id))
+  world.on('entityRemoved', ({ entity }) => {
+    spawned.delete(entity.id)
+    removed.push(entity.id)
+  })
+
+  GAMEPLAY_EVENT_TYPES.forEach(type => {
+    world!.events.on(type, payload => events.push({ type, payload: encodeValue(payload, type) }))
+  })
+}
+
+function advance(frameDelta: number, buffer: Float32Array): void {
+  if (!world) throw new Error('Simulation worker used before init')
+  world.advance(frameDelta)
+
+  const currentIds = stateBufferIds(world)
+  const idsChanged = currentIds.length !== ids.length || currentIds.some((id, index) => id !== ids[index])
+  ids = currentIds
+  const state = writeStateBuffer(world, ids, buffer)
+
+  const update: SimulationUpdate = {
+    kind: 'state',
+    buffer: state,
+    tick: world.clock.tick,
+    time: world.clock.time,
+    ids: idsChanged ? ids : undefined,
+    removed,
+    spawned: Array.from(spawned, id => snapshotEntity(world!.getEntity(id)!)),
+    events,
+    timings: world.profiler.enabled ? world.profiler.getTimings() : undefined
+  }
+  spawned = new Set()
+  removed = []
+  events = []
+  post(update)
+}
+
+function handle(request: SimulationRequest): void {
+  switch (request.kind) {
+    case 'init':
+      init(request.seed)
+      break
+
+    case 'spawn':
+      if (world) restoreEntity(world, request.entity)
+      break
+
+    case 'remove':
+      world?.removeEntity(request.id)
+      break
+
+    case 'input':
+      world?.getSystem<InputSystem>('input')?.enqueue(request.command)
+      break
+
+    case 'setPlayer':
+      if (world) setPlayerEntity(world, request.id)
+      break
+
+    case 'advance':
+      advance(request.frameDelta, request.buffer)
+      break
+
+    case 'timeControl':
+      if (world) applyTimeControl(world.clock, request)
+      break
+
+    case 'profile':
+      if (world) world.profiler.enabled = request.enabled
+      break
+
+    case 'setField':
+      if (world) setComponentField(world, request.id, request.componentType, request.field, request.value)
+      break
+  }
+}
+
+function post(update: SimulationUpdate): void {
+  self.postMessage(update, { transfer: update.kind === 'state' ? [update.buffer.buffer] : [] })
+}
+
+self.onmessage = (event: MessageEvent<SimulationRequest>) => {
+  try {
+    handle(event.data)
+  } catch (error) {
+    post({ kind: 'error', message: error instanceof Error ? error.message : String(error) })
+  }
+}